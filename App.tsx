@@ -1,16 +1,37 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { AppState, Stroke, ToolType, AppMode } from './types';
+import React, { useState, useRef } from 'react';
+import { AppState, Stroke, StrokeShape, ToolType, AppMode, FillMode, InpaintRunInfo, MaskViewMode } from './types';
 import CanvasEditor, { CanvasEditorRef } from './components/CanvasEditor';
 import ComparisonView from './components/ComparisonView';
 import StoryboardGenerator from './components/StoryboardGenerator';
 import ImageSplitter from './components/ImageSplitter';
+import BatchProcessor from './components/BatchProcessor';
 import { 
-  BrushIcon, HandIcon, UndoIcon, TrashIcon, 
+  UndoIcon, RedoIcon, TrashIcon, 
   UploadIcon, MagicIcon, DownloadIcon, CheckIcon,
-  ArrowLeftIcon, ArrowRightIcon, HomeIcon, FilmIcon, GridSplitIcon
+  ArrowLeftIcon, ArrowRightIcon, HomeIcon, FilmIcon, GridSplitIcon, SettingsIcon, ScanIcon, LayersIcon
 } from './components/Icons';
-import { removeWatermark } from './services/geminiService';
+import ErrorBanner from './components/ErrorBanner';
+import SettingsPanel from './components/SettingsPanel';
+import PromptTemplateManager from './components/PromptTemplateManager';
+import PromptTemplateSelect from './components/PromptTemplateSelect';
+import UsageView from './components/UsageView';
+import ShortcutCheatSheet from './components/ShortcutCheatSheet';
+import MaskMenu from './components/MaskMenu';
+import MaskToolbar from './components/MaskToolbar';
+import MaskRefinePanel from './components/MaskRefinePanel';
+import CandidateGallery from './components/CandidateGallery';
+import { removeWatermark, removeWatermarkCandidates } from './services/geminiService';
+import { DEFAULT_COMPOSITE_OPTIONS } from './utils/maskCompositor';
+import { DEFAULT_WAND_OPTIONS, WandOptions } from './utils/magicWand';
+import { DEFAULT_MASK_REFINEMENT, MaskRefinement } from './utils/maskRefinement';
+import { detectWatermarks } from './utils/watermarkDetector';
+import { AIError, isCancelled, toAIError } from './services/aiErrors';
+import { getActiveProvider } from './services/providerRegistry';
+import { getSelectedTemplate } from './services/promptTemplates';
+import { MaskStacks, useMaskHistory } from './hooks/useMaskHistory';
+import { useShortcuts } from './hooks/useShortcuts';
+import { useMaskEditorShortcuts } from './hooks/useMaskEditorShortcuts';
 
 // History State Interface
 interface HistorySnapshot {
@@ -18,11 +39,41 @@ interface HistorySnapshot {
   originalImage: string | null;
   processedImage: string | null;
   strokes: Stroke[];
+  // Mask undo/redo for this step, so returning to it keeps the edit history
+  maskStacks?: MaskStacks;
+  // Set on COMPARE snapshots: which mode / instruction produced processedImage
+  runInfo?: InpaintRunInfo;
+  // Every result of a multi-candidate run; processedImage is candidates[selectedCandidate]
+  candidates?: string[];
+  selectedCandidate?: number;
 }
 
+// Upper bound for parallel candidates per run
+const MAX_CANDIDATES = 4;
+
+const describeRun = (info?: InpaintRunInfo): string => {
+  if (!info) return '';
+  return info.mode === FillMode.GENERATIVE ? `生成填充: ${info.instruction}` : '智能消除';
+};
+
+const describeSnapshot = (snapshot: HistorySnapshot): string => {
+  if (snapshot.appState === AppState.COMPARE) {
+    const label = describeRun(snapshot.runInfo) || '结果';
+    const { candidates, selectedCandidate = 0 } = snapshot;
+    if (!candidates) return label;
+    return `${label} · 候选 ${selectedCandidate + 1}/${candidates.length}`;
+  }
+  return '涂抹编辑';
+};
+
 const App: React.FC = () => {
   // Global Mode
   const [appMode, setAppMode] = useState<AppMode>(AppMode.HOME);
+  const [providerLabel, setProviderLabel] = useState<string>(getActiveProvider().label);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showPromptManager, setShowPromptManager] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
 
   // --- Watermark Feature State ---
   const [appState, setAppState] = useState<AppState>(AppState.UPLOAD);
@@ -30,25 +81,45 @@ const App: React.FC = () => {
   const [processedImage, setProcessedImage] = useState<string | null>(null);
   const [tool, setTool] = useState<ToolType>(ToolType.BRUSH);
   const [brushSize, setBrushSize] = useState<number>(20);
-  const [strokes, setStrokes] = useState<Stroke[]>([]);
+  const [wandOptions, setWandOptions] = useState<WandOptions>(DEFAULT_WAND_OPTIONS);
+  const mask = useMaskHistory();
+  const { strokes } = mask;
+  const [maskRefinement, setMaskRefinement] = useState<MaskRefinement>(DEFAULT_MASK_REFINEMENT);
+  const [maskViewMode, setMaskViewMode] = useState<MaskViewMode>(MaskViewMode.OVERLAY);
+  const [featherRadius, setFeatherRadius] = useState<number>(DEFAULT_COMPOSITE_OPTIONS.featherRadius);
+  const [colorMatch, setColorMatch] = useState<boolean>(DEFAULT_COMPOSITE_OPTIONS.colorMatch);
+  const [inpaintTemplateId, setInpaintTemplateId] = useState<string>(getSelectedTemplate('inpaint').id);
+  const [instruction, setInstruction] = useState<string>("");
+  const [forceFresh, setForceFresh] = useState(false);
+  const [runInfo, setRunInfo] = useState<InpaintRunInfo | undefined>(undefined);
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [candidates, setCandidates] = useState<string[]>([]);
+  const [selectedCandidate, setSelectedCandidate] = useState(0);
+  const [showHistoryList, setShowHistoryList] = useState(false);
   const [hasMask, setHasMask] = useState(false);
   const [loadingText, setLoadingText] = useState<string>("");
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [error, setError] = useState<AIError | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
   
   // Navigation History Stack (Watermark)
   const [history, setHistory] = useState<HistorySnapshot[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
 
   const canvasRef = useRef<CanvasEditorRef>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const noticeTimerRef = useRef<number | undefined>(undefined);
 
   // Helper: Restore state from snapshot
   const restoreSnapshot = (snapshot: HistorySnapshot) => {
     setAppState(snapshot.appState);
     setOriginalImage(snapshot.originalImage);
     setProcessedImage(snapshot.processedImage);
-    setStrokes(snapshot.strokes);
-    setHasMask(snapshot.strokes.length > 0);
-    setErrorMsg(null);
+    mask.load(snapshot.strokes, snapshot.maskStacks);
+    setRunInfo(snapshot.runInfo);
+    setCandidates(snapshot.candidates ?? []);
+    setSelectedCandidate(snapshot.selectedCandidate ?? 0);
+    setError(null);
   };
 
   // Helper: Record a new history entry (and clear future history if any)
@@ -56,10 +127,13 @@ const App: React.FC = () => {
     let currentHistory = [...history];
     if (historyIndex >= 0 && historyIndex < currentHistory.length) {
       currentHistory[historyIndex] = {
+        ...currentHistory[historyIndex],
         appState,
         originalImage,
         processedImage,
-        strokes: [...strokes] 
+        selectedCandidate,
+        strokes,
+        maskStacks: mask.stacks
       };
     }
     const upToCurrent = currentHistory.slice(0, historyIndex + 1);
@@ -95,26 +169,119 @@ const App: React.FC = () => {
     if (!originalImage || !canvasRef.current) return;
     setAppState(AppState.PROCESSING);
     setLoadingText("magic郑正在施法前摇......");
-    setErrorMsg(null);
+    setError(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const trimmedInstruction = instruction.trim();
+    const info: InpaintRunInfo = {
+      mode: trimmedInstruction ? FillMode.GENERATIVE : FillMode.REMOVE,
+      instruction: trimmedInstruction,
+      templateId: inpaintTemplateId
+    };
     try {
       const maskDataUrl = canvasRef.current.getMaskDataURL();
-      const result = await removeWatermark(originalImage, maskDataUrl);
+      const options = {
+        signal: controller.signal,
+        templateId: inpaintTemplateId,
+        instruction: trimmedInstruction,
+        forceFresh,
+        compositing: { featherRadius, colorMatch }
+      };
+      const count = candidateCount;
+      if (count > 1) setLoadingText(`正在生成 ${count} 个候选......`);
+      const results = count > 1
+        ? await removeWatermarkCandidates(originalImage, maskDataUrl, count, options, finished => {
+            if (!controller.signal.aborted) setLoadingText(`正在生成候选 ${finished}/${count}......`);
+          })
+        : [await removeWatermark(originalImage, maskDataUrl, options)];
+      if (controller.signal.aborted) return;
       const resultState: HistorySnapshot = {
         appState: AppState.COMPARE,
         originalImage: originalImage,
-        processedImage: result,
-        strokes: strokes 
+        processedImage: results[0],
+        strokes,
+        maskStacks: mask.stacks,
+        runInfo: info,
+        ...(results.length > 1 ? { candidates: results, selectedCandidate: 0 } : {})
       };
       pushNewState(resultState);
-    } catch (error: any) {
-      console.error(error);
-      setErrorMsg(error.message || "处理失败，请重试。");
+      if (results.length < count) showNotice(`${count - results.length} 个候选生成失败，已跳过`);
+    } catch (err) {
+      if (controller.signal.aborted || isCancelled(err)) return;
+      console.error(err);
+      setError(toAIError(err));
       setAppState(AppState.EDIT); 
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const handleCancelProcessing = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setAppState(AppState.EDIT);
+  };
+
+  // Switches the compared / applied result in place, remembering the pick in this history step.
+  // Tracked by index: candidates can be byte-identical (e.g. the deterministic mock provider)
+  const handleSelectCandidate = (index: number) => {
+    const candidate = candidates[index];
+    setSelectedCandidate(index);
+    setProcessedImage(candidate);
+    setHistory(prev => prev.map((snapshot, i) =>
+      i === historyIndex ? { ...snapshot, processedImage: candidate, selectedCandidate: index } : snapshot));
+  };
+
+  const handleStepCandidate = (delta: number) => {
+    if (candidates.length < 2) return;
+    handleSelectCandidate((selectedCandidate + delta + candidates.length) % candidates.length);
+  };
+
+  // Records a candidate as its own history step, so several can be revisited later
+  const handleKeepCandidate = (index: number) => {
+    if (!originalImage) return;
+    pushNewState({
+      appState: AppState.COMPARE,
+      originalImage,
+      processedImage: candidates[index],
+      strokes,
+      maskStacks: mask.stacks,
+      runInfo,
+      candidates,
+      selectedCandidate: index
+    });
+    showNotice(`已存入历史: 候选 ${index + 1}`);
+  };
+
+  const showNotice = (text: string) => {
+    window.clearTimeout(noticeTimerRef.current);
+    setNotice(text);
+    noticeTimerRef.current = window.setTimeout(() => setNotice(null), 4000);
+  };
+
+  const handleDetectWatermark = async () => {
+    if (!originalImage || isDetecting) return;
+    setIsDetecting(true);
+    try {
+      const regions = await detectWatermarks(originalImage);
+      if (regions.length === 0) {
+        showNotice("未检测到明显水印，请手动涂抹");
+        return;
+      }
+      // One undo step drops the whole proposal; the eraser refines single regions
+      mask.addStrokes(regions.map(region => ({ points: [], size: 0, shape: StrokeShape.REGION, region })), '自动检测');
+      showNotice(`检测到 ${regions.length} 处疑似水印，已加入蒙版，可撤销或用橡皮擦调整`);
+    } catch (e) {
+      console.error(e);
+      showNotice("水印检测失败");
+    } finally {
+      setIsDetecting(false);
     }
   };
 
-  const handleUndo = () => setStrokes(prev => prev.slice(0, -1));
-  const handleReset = () => setStrokes([]);
+  const handleUndo = mask.undo;
+  const handleRedo = mask.redo;
+  const handleReset = mask.clear;
   
   const handleApplyEffect = () => {
     if (processedImage) {
@@ -143,16 +310,19 @@ const App: React.FC = () => {
     setAppState(AppState.UPLOAD);
     setOriginalImage(null);
     setProcessedImage(null);
-    setStrokes([]);
+    mask.load([]);
     setHasMask(false);
+    setRunInfo(undefined);
     setHistory([]);
     setHistoryIndex(-1);
   };
 
   const handleBackToHome = () => {
+    if (appState === AppState.PROCESSING) handleCancelProcessing();
     setAppMode(AppMode.HOME);
   };
 
+
   const handleStepBack = () => {
     if (historyIndex > 0) {
       const newIndex = historyIndex - 1;
@@ -163,6 +333,13 @@ const App: React.FC = () => {
     }
   };
 
+  const handleJumpTo = (index: number) => {
+    setShowHistoryList(false);
+    if (index === historyIndex || !history[index]) return;
+    setHistoryIndex(index);
+    restoreSnapshot(history[index]);
+  };
+
   const handleStepForward = () => {
     if (historyIndex < history.length - 1) {
       const newIndex = historyIndex + 1;
@@ -171,19 +348,90 @@ const App: React.FC = () => {
     }
   };
 
+  const handleClosePromptManager = () => {
+    setShowPromptManager(false);
+    // The current pick may have been deleted or superseded by a new version
+    setInpaintTemplateId(getSelectedTemplate('inpaint').id);
+  };
+
+  const handleCycleMaskView = () => {
+    const modes = [MaskViewMode.OVERLAY, MaskViewMode.MASK_ONLY, MaskViewMode.HIDDEN];
+    setMaskViewMode(prev => modes[(modes.indexOf(prev) + 1) % modes.length]);
+  };
+
+  // --- Keyboard Shortcuts ---
+  const inWatermark = appMode === AppMode.WATERMARK;
+  const isEditing = inWatermark && appState === AppState.EDIT;
+  const isComparing = inWatermark && appState === AppState.COMPARE && !!processedImage;
+
+  useShortcuts('通用', [
+    { combo: '?', description: '显示 / 隐藏快捷键', run: () => setShowShortcuts(prev => !prev) },
+  ]);
+
+  const canvasTool = useMaskEditorShortcuts('去水印 · 编辑', {
+    enabled: isEditing,
+    tool,
+    setTool,
+    setBrushSize,
+    undo: handleUndo,
+    redo: handleRedo
+  }, [
+    { combo: 'enter', description: instruction.trim() ? '开始填充' : '开始消除', run: handleStartProcessing, enabled: isEditing && hasMask },
+    { combo: 'd', description: '自动检测水印', run: handleDetectWatermark, enabled: isEditing && !isDetecting },
+    { combo: 'v', description: '切换蒙版显示 (叠加 / 仅蒙版 / 隐藏)', run: handleCycleMaskView, enabled: isEditing },
+  ]);
+
+  const hasCandidates = isComparing && candidates.length > 1;
+  useShortcuts('去水印 · 对比', [
+    { combo: 'a', description: '应用结果并继续编辑', run: handleApplyEffect, enabled: isComparing },
+    { combo: 'mod+s', description: '下载结果', run: handleDownload, enabled: isComparing, allowInInputs: true },
+    { combo: 'arrowleft', description: '上一个候选', run: () => handleStepCandidate(-1), enabled: hasCandidates },
+    { combo: 'arrowright', description: '下一个候选', run: () => handleStepCandidate(1), enabled: hasCandidates },
+    { combo: 'k', description: '当前候选存入历史', run: () => handleKeepCandidate(selectedCandidate), enabled: hasCandidates },
+  ]);
+
+  useShortcuts('去水印 · 处理中', [
+    { combo: 'escape', description: '取消处理', run: handleCancelProcessing, enabled: inWatermark && appState === AppState.PROCESSING },
+  ]);
+
+  const modals = (
+    <>
+      {showSettings && (
+        <SettingsPanel
+          onClose={() => setShowSettings(false)}
+          onSaved={() => setProviderLabel(getActiveProvider().label)}
+          onOpenPrompts={() => { setShowSettings(false); setShowPromptManager(true); }}
+          onOpenUsage={() => { setShowSettings(false); setShowUsage(true); }}
+        />
+      )}
+      {showUsage && <UsageView onClose={() => setShowUsage(false)} />}
+      {showPromptManager && <PromptTemplateManager onClose={handleClosePromptManager} />}
+      {showShortcuts && <ShortcutCheatSheet onClose={() => setShowShortcuts(false)} />}
+    </>
+  );
+
   const canGoBack = historyIndex > 0 || appState !== AppState.UPLOAD;
   const canGoForward = historyIndex < history.length - 1;
 
   // Render Tool Selection (Home)
   if (appMode === AppMode.HOME) {
       return (
-        <div className="flex flex-col h-screen w-full bg-cyber-dark text-cyber-text font-sans items-center justify-center p-4">
+        <div className="relative flex flex-col h-screen w-full bg-cyber-dark text-cyber-text font-sans items-center justify-center p-4">
+             <button
+                onClick={() => setShowSettings(true)}
+                className="absolute top-6 right-6 flex items-center gap-2 p-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300 transition-colors"
+                title="设置 API Key / 模型"
+             >
+                <SettingsIcon className="w-5 h-5" />
+                <span className="text-xs font-mono">{providerLabel}</span>
+             </button>
+
              <div className="text-center mb-12">
                  <h1 className="text-5xl font-bold tracking-wider cyber-glitch mb-4">用户增长涨涨涨</h1>
                  <p className="text-cyber-dim text-lg">AI 图像增强工具箱</p>
              </div>
 
-             <div className="grid grid-cols-1 md:grid-cols-3 gap-6 w-full max-w-6xl">
+             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 w-full max-w-6xl">
                  {/* Card 1: Watermark */}
                  <button 
                     onClick={() => setAppMode(AppMode.WATERMARK)}
@@ -195,6 +443,16 @@ const App: React.FC = () => {
                      <p className="text-gray-400 text-sm">涂抹图像中不需要的物体、水印或瑕疵，AI 智能填充背景。</p>
                  </button>
 
+                 {/* Card: Batch Watermark */}
+                 <button 
+                    onClick={() => setAppMode(AppMode.BATCH)}
+                    className="group relative bg-cyber-panel border border-gray-800 rounded-2xl p-6 hover:border-purple-500 transition-all hover:-translate-y-2 hover:shadow-[0_0_30px_rgba(168,85,247,0.2)] text-left"
+                 >
+                     <LayersIcon className="w-12 h-12 text-purple-500 mb-6 group-hover:scale-110 transition-transform" />
+                     <h2 className="text-xl font-bold text-white mb-2">批量去水印</h2>
+                     <p className="text-gray-400 text-sm">一张蒙版按比例套用到多张图片，排队并发处理，逐张复核后打包下载。</p>
+                 </button>
+
                  {/* Card 2: Storyboard */}
                  <button 
                     onClick={() => setAppMode(AppMode.STORYBOARD)}
@@ -216,6 +474,8 @@ const App: React.FC = () => {
                      <p className="text-gray-400 text-sm">批量上传图片，自定义行列数切分，一键打包下载 ZIP。</p>
                  </button>
              </div>
+
+             {modals}
         </div>
       );
   }
@@ -253,9 +513,43 @@ const App: React.FC = () => {
                  >
                    <ArrowRightIcon className="w-5 h-5" />
                  </button>
+
+                 {/* History list: which mode / instruction produced each step */}
+                 {history.length > 0 && (
+                   <div className="relative">
+                     <button
+                       onClick={() => setShowHistoryList(prev => !prev)}
+                       disabled={appState === AppState.PROCESSING}
+                       className="px-3 py-2 rounded-lg border border-gray-700 text-xs font-mono text-gray-400 hover:text-white disabled:opacity-30"
+                     >
+                       步骤 {historyIndex + 1}/{history.length}
+                     </button>
+                     {showHistoryList && (
+                       <div className="absolute top-full left-0 mt-2 w-72 max-h-80 overflow-y-auto bg-cyber-panel border border-gray-700 rounded-lg shadow-xl z-50 py-1">
+                         {history.map((snapshot, i) => (
+                           <button
+                             key={i}
+                             onClick={() => handleJumpTo(i)}
+                             className={`w-full text-left px-3 py-2 text-xs flex gap-2 hover:bg-gray-800 ${i === historyIndex ? 'text-cyber-secondary' : 'text-gray-300'}`}
+                           >
+                             <span className="font-mono text-gray-500 shrink-0">{i + 1}.</span>
+                             <span className="truncate">{describeSnapshot(snapshot)}</span>
+                           </button>
+                         ))}
+                       </div>
+                     )}
+                   </div>
+                 )}
               </div>
            )}
 
+           {appMode === AppMode.BATCH && (
+             <div className="flex items-center gap-2 text-purple-500 font-bold">
+                <LayersIcon className="w-5 h-5" />
+                <span>批量去水印</span>
+             </div>
+           )}
+
            {appMode === AppMode.STORYBOARD && (
              <div className="flex items-center gap-2 text-cyber-primary font-bold">
                 <FilmIcon className="w-5 h-5" />
@@ -271,14 +565,34 @@ const App: React.FC = () => {
            )}
         </div>
         
+        <div className="flex items-center gap-4">
+        {/* AI Settings */}
+        <button
+          onClick={() => setShowSettings(true)}
+          className="flex items-center gap-2 p-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300 transition-colors"
+          title="设置 API Key / 模型"
+        >
+          <SettingsIcon className="w-5 h-5" />
+          <span className="hidden sm:inline text-xs font-mono">{providerLabel}</span>
+        </button>
+        <button
+          onClick={() => setShowShortcuts(true)}
+          className="hidden sm:block w-9 h-9 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300 font-mono text-sm transition-colors"
+          title="快捷键 (?)"
+        >
+          ?
+        </button>
+
         {/* Title / Logo */}
         <div className="hidden md:flex items-center gap-2 opacity-50">
              <div className={`w-3 h-3 rounded-full ${
                 appMode === AppMode.WATERMARK ? 'bg-cyber-secondary' : 
+                appMode === AppMode.BATCH ? 'bg-purple-500' :
                 appMode === AppMode.STORYBOARD ? 'bg-cyber-primary' : 'bg-green-500'
              }`}></div>
              <span className="text-sm font-mono tracking-widest">用户增长涨涨涨 v1.0</span>
         </div>
+        </div>
       </header>
 
       {/* --- CONTENT FOR WATERMARK MODE --- */}
@@ -301,11 +615,15 @@ const App: React.FC = () => {
                 <CanvasEditor 
                     ref={canvasRef}
                     imageSrc={originalImage}
-                    tool={tool}
+                    tool={canvasTool}
                     brushSize={brushSize}
+                    wandOptions={wandOptions}
                     onMaskChange={setHasMask}
                     strokes={strokes}
-                    setStrokes={setStrokes}
+                    onAddStrokes={mask.addStrokes}
+                    refinement={maskRefinement}
+                    viewMode={maskViewMode}
+                    shortcutsEnabled={isEditing}
                 />
                 )}
 
@@ -316,6 +634,7 @@ const App: React.FC = () => {
                         <div className="absolute inset-0 border-4 border-t-cyber-secondary border-r-transparent border-b-cyber-primary border-l-transparent rounded-full animate-spin"></div>
                     </div>
                     <p className="text-xl font-mono animate-pulse text-cyber-secondary">{loadingText}</p>
+                    <button onClick={handleCancelProcessing} className="mt-8 px-6 py-2 rounded border border-gray-600 text-gray-300 hover:text-white hover:border-white transition-colors">取消</button>
                 </div>
                 )}
 
@@ -323,12 +642,21 @@ const App: React.FC = () => {
                 <ComparisonView originalSrc={originalImage} processedSrc={processedImage} />
                 )}
 
-                {errorMsg && (
-                <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-red-900/90 text-white px-6 py-3 rounded border border-red-500 shadow-xl z-50">
-                    {errorMsg}
-                    <button onClick={() => setErrorMsg(null)} className="ml-4 font-bold">X</button>
+                {appState === AppState.COMPARE && runInfo && (
+                <div className="absolute top-4 left-4 max-w-[30%] truncate bg-black/60 px-3 py-1 rounded text-xs font-mono text-gray-300 border border-gray-700 z-10" title={describeRun(runInfo)}>
+                    {describeRun(runInfo)}
                 </div>
                 )}
+
+                {notice && (
+                <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-black/70 px-4 py-2 rounded-lg text-sm text-cyber-primary border border-cyber-primary/40 z-30 pointer-events-none">
+                    {notice}
+                </div>
+                )}
+
+                {error && (
+                <ErrorBanner error={error} onDismiss={() => setError(null)} onRetry={handleStartProcessing} />
+                )}
             </main>
 
             {/* Footer for Watermark */}
@@ -336,27 +664,108 @@ const App: React.FC = () => {
                 <footer className="h-20 bg-cyber-panel border-t border-gray-800 flex items-center justify-center px-4 md:px-8 gap-4 md:gap-8 z-20 shrink-0">
                     {appState === AppState.EDIT && (
                         <>
-                        <div className="flex items-center bg-gray-900 rounded-lg p-1 border border-gray-700">
-                            <button onClick={() => setTool(ToolType.BRUSH)} className={`p-3 rounded ${tool === ToolType.BRUSH ? 'bg-cyber-secondary text-white' : 'text-gray-400'}`}><BrushIcon /></button>
-                            <button onClick={() => setTool(ToolType.HAND)} className={`p-3 rounded ${tool === ToolType.HAND ? 'bg-cyber-primary text-black' : 'text-gray-400'}`}><HandIcon /></button>
+                        <MaskToolbar tool={tool} onToolChange={setTool} />
+                        <button
+                            onClick={handleDetectWatermark}
+                            disabled={isDetecting}
+                            title="自动检测角落水印并生成可编辑蒙版"
+                            className="flex items-center gap-2 px-3 py-2.5 rounded-lg border border-gray-700 bg-gray-900 text-gray-300 text-xs hover:text-cyber-primary hover:border-cyber-primary disabled:opacity-50"
+                        >
+                            <ScanIcon className={`w-4 h-4 ${isDetecting ? 'animate-pulse' : ''}`} />
+                            <span className="hidden md:inline">{isDetecting ? '检测中...' : '自动检测'}</span>
+                        </button>
+                        {tool === ToolType.WAND ? (
+                        <div className="flex items-center gap-2 px-3 py-2 bg-gray-900 rounded-lg border border-gray-700 hidden sm:flex">
+                            <span className="text-xs text-gray-400 font-mono whitespace-nowrap" title="颜色容差">容差 {wandOptions.tolerance}</span>
+                            <input type="range" min="0" max="128" value={wandOptions.tolerance} onChange={(e) => setWandOptions(prev => ({ ...prev, tolerance: Number(e.target.value) }))} className="w-20 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-cyber-secondary [&::-webkit-slider-thumb]:rounded-full" />
+                            <button onClick={() => setWandOptions(prev => ({ ...prev, contiguous: !prev.contiguous }))} title="仅选择与点击处相连的区域" className={`text-xs font-mono px-2 py-0.5 rounded border ${wandOptions.contiguous ? 'border-cyber-secondary text-cyber-secondary' : 'border-gray-700 text-gray-500'}`}>连续</button>
+                            <div className="flex items-center gap-1 text-xs font-mono text-gray-400" title="扩展 / 收缩选区 (px)">
+                                <button onClick={() => setWandOptions(prev => ({ ...prev, grow: Math.max(-20, prev.grow - 1) }))} className="w-5 h-5 rounded border border-gray-700 hover:text-white">-</button>
+                                <span className="w-8 text-center">{wandOptions.grow > 0 ? `+${wandOptions.grow}` : wandOptions.grow}</span>
+                                <button onClick={() => setWandOptions(prev => ({ ...prev, grow: Math.min(20, prev.grow + 1) }))} className="w-5 h-5 rounded border border-gray-700 hover:text-white">+</button>
+                            </div>
                         </div>
+                        ) : (
                         <div className="flex items-center gap-3 px-4 py-2 bg-gray-900 rounded-lg border border-gray-700 w-48 hidden sm:flex">
                             <input type="range" min="5" max="100" value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-cyber-secondary [&::-webkit-slider-thumb]:rounded-full" />
                         </div>
+                        )}
+                        <div className="flex items-center gap-2 px-3 py-2 bg-gray-900 rounded-lg border border-gray-700 hidden lg:flex" title="边缘羽化 (px)">
+                            <span className="text-xs text-gray-400 font-mono whitespace-nowrap">羽化 {featherRadius}</span>
+                            <input type="range" min="0" max="40" value={featherRadius} onChange={(e) => setFeatherRadius(Number(e.target.value))} className="w-20 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-cyber-primary [&::-webkit-slider-thumb]:rounded-full" />
+                            <button onClick={() => setColorMatch(prev => !prev)} title="接缝颜色匹配" className={`text-xs font-mono px-2 py-0.5 rounded border ${colorMatch ? 'border-cyber-primary text-cyber-primary' : 'border-gray-700 text-gray-500'}`}>色彩匹配</button>
+                        </div>
+                        <input
+                            type="text"
+                            value={instruction}
+                            onChange={(e) => setInstruction(e.target.value)}
+                            placeholder="填充内容 (留空=智能消除)"
+                            title="例如: a blue coffee mug / clear sky"
+                            className="w-40 md:w-56 bg-gray-900 border border-gray-700 text-gray-200 text-xs rounded-lg p-2.5 outline-none focus:border-cyber-secondary"
+                        />
+                        <PromptTemplateSelect
+                            kind="inpaint"
+                            value={inpaintTemplateId}
+                            onChange={setInpaintTemplateId}
+                            className="hidden xl:block max-w-[160px] bg-gray-900 border border-gray-700 text-gray-300 text-xs rounded-lg p-2 outline-none focus:border-cyber-primary"
+                        />
+                        <button
+                            onClick={() => setForceFresh(prev => !prev)}
+                            title="跳过本地缓存，重新调用 AI"
+                            className={`hidden lg:block text-xs font-mono px-2 py-2 rounded-lg border ${forceFresh ? 'border-cyber-secondary text-cyber-secondary' : 'border-gray-700 text-gray-500'}`}
+                        >
+                            强制刷新
+                        </button>
+                        <select
+                            value={candidateCount}
+                            onChange={(e) => setCandidateCount(Number(e.target.value))}
+                            title="每次并行生成的候选数量, 完成后在画廊中挑选"
+                            className="hidden lg:block bg-gray-900 border border-gray-700 text-gray-300 text-xs rounded-lg p-2 outline-none focus:border-cyber-primary"
+                        >
+                            {Array.from({ length: MAX_CANDIDATES }, (_, i) => i + 1).map(n => (
+                                <option key={n} value={n}>{n === 1 ? '单个结果' : `${n} 个候选`}</option>
+                            ))}
+                        </select>
+                        <MaskRefinePanel
+                            refinement={maskRefinement}
+                            onRefinementChange={setMaskRefinement}
+                            viewMode={maskViewMode}
+                            onViewModeChange={setMaskViewMode}
+                        />
+                        <MaskMenu
+                            strokes={strokes}
+                            hasMask={hasMask}
+                            getImageSize={() => canvasRef.current?.getImageSize() ?? null}
+                            getMaskDataURL={() => canvasRef.current?.getMaskDataURL() ?? ''}
+                            onAddStrokes={mask.addStrokes}
+                            onNotice={showNotice}
+                        />
                         <div className="flex items-center gap-2">
-                            <button onClick={handleUndo} className="p-3 text-gray-400 hover:text-white"><UndoIcon /></button>
-                            <button onClick={handleReset} className="p-3 text-gray-400 hover:text-red-500"><TrashIcon /></button>
+                            <button onClick={handleUndo} disabled={!mask.canUndo} title={mask.undoLabel ? `撤销: ${mask.undoLabel} (Ctrl+Z)` : '撤销 (Ctrl+Z)'} className="p-3 text-gray-400 hover:text-white disabled:opacity-30"><UndoIcon /></button>
+                            <button onClick={handleRedo} disabled={!mask.canRedo} title={mask.redoLabel ? `重做: ${mask.redoLabel} (Shift+Ctrl+Z)` : '重做 (Shift+Ctrl+Z)'} className="p-3 text-gray-400 hover:text-white disabled:opacity-30"><RedoIcon /></button>
+                            <button onClick={handleReset} disabled={strokes.length === 0} title="清空蒙版 (可撤销)" className="p-3 text-gray-400 hover:text-red-500 disabled:opacity-30"><TrashIcon /></button>
                         </div>
                         <div className="h-8 w-px bg-gray-700 mx-2"></div>
-                        <button onClick={handleStartProcessing} disabled={!hasMask} className={`flex items-center gap-2 px-6 py-3 rounded-lg font-bold transition-all ${hasMask ? 'bg-gradient-to-r from-cyber-secondary to-purple-600 text-white' : 'bg-gray-800 text-gray-500 cursor-not-allowed'}`}>
-                            <MagicIcon /> <span className="hidden md:inline">开始消除</span>
+                        <button onClick={handleStartProcessing} disabled={!hasMask} title="Enter" className={`flex items-center gap-2 px-6 py-3 rounded-lg font-bold transition-all ${hasMask ? 'bg-gradient-to-r from-cyber-secondary to-purple-600 text-white' : 'bg-gray-800 text-gray-500 cursor-not-allowed'}`}>
+                            <MagicIcon /> <span className="hidden md:inline">{instruction.trim() ? '开始填充' : '开始消除'}</span>
                         </button>
                         </>
                     )}
                     {appState === AppState.COMPARE && (
                         <>
-                        <button onClick={handleApplyEffect} className="flex items-center gap-2 px-5 py-2 rounded border border-cyber-secondary text-cyber-secondary font-bold"><CheckIcon /> 应用</button>
-                        <button onClick={handleDownload} className="flex items-center gap-2 px-6 py-3 rounded bg-cyber-secondary text-white font-bold"><DownloadIcon /> 下载</button>
+                        {candidates.length > 1 && (
+                            <>
+                            <CandidateGallery
+                                candidates={candidates}
+                                selected={selectedCandidate}
+                                onSelect={handleSelectCandidate}
+                                onKeep={handleKeepCandidate}
+                            />
+                            <div className="h-8 w-px bg-gray-700"></div>
+                            </>
+                        )}
+                        <button onClick={handleApplyEffect} title="A" className="flex items-center gap-2 px-5 py-2 rounded border border-cyber-secondary text-cyber-secondary font-bold"><CheckIcon /> 应用</button>
+                        <button onClick={handleDownload} title="Ctrl+S" className="flex items-center gap-2 px-6 py-3 rounded bg-cyber-secondary text-white font-bold"><DownloadIcon /> 下载</button>
                         <button onClick={handleResetWatermarkTool} className="px-4 py-2 text-gray-400 hover:text-white border border-gray-700 rounded">新图</button>
                         </>
                     )}
@@ -365,6 +774,13 @@ const App: React.FC = () => {
           </>
       )}
 
+      {/* --- CONTENT FOR BATCH MODE --- */}
+      {appMode === AppMode.BATCH && (
+         <main className="flex-1 overflow-hidden bg-cyber-dark">
+             <BatchProcessor />
+         </main>
+      )}
+
       {/* --- CONTENT FOR STORYBOARD MODE --- */}
       {appMode === AppMode.STORYBOARD && (
          <main className="flex-1 overflow-hidden bg-cyber-dark">
@@ -379,6 +795,7 @@ const App: React.FC = () => {
           </main>
       )}
 
+      {modals}
     </div>
   );
 };
@@ -0,0 +1,450 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import JSZip from 'jszip';
+import { ImageDimensions, MaskViewMode, Stroke, ToolType } from '../types';
+import CanvasEditor, { CanvasEditorRef } from './CanvasEditor';
+import ComparisonView from './ComparisonView';
+import MaskToolbar from './MaskToolbar';
+import MaskMenu from './MaskMenu';
+import MaskRefinePanel from './MaskRefinePanel';
+import PromptTemplateSelect from './PromptTemplateSelect';
+import { UploadIcon, MagicIcon, ZipIcon, TrashIcon, UndoIcon, RedoIcon, LayersIcon } from './Icons';
+import { removeWatermark } from '../services/geminiService';
+import { runWithConcurrency } from '../services/taskQueue';
+import { AIError, isCancelled, toAIError } from '../services/aiErrors';
+import { getSelectedTemplate } from '../services/promptTemplates';
+import { MaskDocument, fromMaskDocument, toMaskDocument } from '../utils/maskSerialization';
+import { DEFAULT_MASK_REFINEMENT, MaskRefinement, renderRefinedMask } from '../utils/maskRefinement';
+import { hasVisibleMask } from '../utils/maskRaster';
+import { loadImage } from '../utils/imageUtils';
+import { DEFAULT_WAND_OPTIONS } from '../utils/magicWand';
+import { DEFAULT_COMPOSITE_OPTIONS } from '../utils/maskCompositor';
+import { useMaskHistory } from '../hooks/useMaskHistory';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { useMaskEditorShortcuts } from '../hooks/useMaskEditorShortcuts';
+
+type BatchStatus = 'pending' | 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
+
+interface BatchItem {
+  id: string;
+  name: string;
+  src: string;
+  size: ImageDimensions;
+  status: BatchStatus;
+  result?: string;
+  error?: AIError;
+}
+
+const STATUS_STYLES: Record<BatchStatus, { label: string; className: string }> = {
+  pending: { label: '待处理', className: 'text-gray-500' },
+  queued: { label: '排队中', className: 'text-gray-400' },
+  processing: { label: '处理中...', className: 'text-cyber-primary animate-pulse' },
+  done: { label: '完成', className: 'text-green-400' },
+  error: { label: '失败', className: 'text-red-400' },
+  cancelled: { label: '已取消', className: 'text-yellow-500' },
+};
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const readAsDataURL = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const sameSize = (a: ImageDimensions, b: ImageDimensions) => a.width === b.width && a.height === b.height;
+
+// Re-expresses strokes drawn on an image of size `from` in the pixels of `to`
+const remapStrokes = (strokes: Stroke[], from: ImageDimensions, to: ImageDimensions): Stroke[] =>
+  sameSize(from, to) ? strokes : fromMaskDocument(toMaskDocument(strokes, from), to);
+
+// The shared mask, mapped proportionally onto one item's resolution; refinement
+// distances were chosen on the `from` image and scale with it
+const maskFor = (item: BatchItem, mask: MaskDocument, refinement: MaskRefinement, from: ImageDimensions): string => {
+  const ratio = Math.hypot(item.size.width, item.size.height) / Math.hypot(from.width, from.height);
+  const scaled = { ...refinement, grow: Math.round(refinement.grow * ratio), feather: Math.round(refinement.feather * ratio) };
+  return renderRefinedMask(fromMaskDocument(mask, item.size), item.size.width, item.size.height, scaled).toDataURL('image/png');
+};
+
+const BatchProcessor: React.FC = () => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reviewing, setReviewing] = useState(false);
+  // The shared mask, expressed in the pixels of `maskSize`: the first image selected.
+  // Other images only ever see a mapped copy, so bitmaps are never resampled twice
+  // and the undo history survives switching images.
+  const mask = useMaskHistory();
+  const { strokes } = mask;
+  const [maskSize, setMaskSize] = useState<ImageDimensions | null>(null);
+  // Mapped copies per canonical stroke for one image size; unchanged strokes keep
+  // their identity, so the editor appends new strokes instead of repainting
+  const viewCacheRef = useRef<{ size: ImageDimensions | null; strokes: WeakMap<Stroke, Stroke> }>({ size: null, strokes: new WeakMap() });
+  const [maskRefinement, setMaskRefinement] = useState<MaskRefinement>(DEFAULT_MASK_REFINEMENT);
+  const [maskViewMode, setMaskViewMode] = useState<MaskViewMode>(MaskViewMode.OVERLAY);
+  const [tool, setTool] = useState<ToolType>(ToolType.BRUSH);
+  const [brushSize, setBrushSize] = useState<number>(20);
+  const [concurrency, setConcurrency] = useState(2);
+  // Same per-run options as single-image removal
+  const [featherRadius, setFeatherRadius] = useState<number>(DEFAULT_COMPOSITE_OPTIONS.featherRadius);
+  const [colorMatch, setColorMatch] = useState<boolean>(DEFAULT_COMPOSITE_OPTIONS.colorMatch);
+  const [inpaintTemplateId, setInpaintTemplateId] = useState<string>(getSelectedTemplate('inpaint').id);
+  const [forceFresh, setForceFresh] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const canvasRef = useRef<CanvasEditorRef>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const noticeTimerRef = useRef<number | undefined>(undefined);
+
+  // Abort the queue when leaving batch mode
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    window.clearTimeout(noticeTimerRef.current);
+  }, []);
+
+  const selected = items.find(i => i.id === selectedId) || null;
+  const viewSize = selected?.size ?? null;
+
+  // The shared mask in the selected image's pixels
+  const viewStrokes = useMemo(() => {
+    if (!maskSize || !viewSize || sameSize(maskSize, viewSize)) return strokes;
+    let cache = viewCacheRef.current;
+    if (!cache.size || !sameSize(cache.size, viewSize)) {
+      cache = { size: viewSize, strokes: new WeakMap() };
+      viewCacheRef.current = cache;
+    }
+    return strokes.map(stroke => {
+      let view = cache.strokes.get(stroke);
+      if (!view) {
+        view = remapStrokes([stroke], maskSize, viewSize)[0];
+        cache.strokes.set(stroke, view);
+      }
+      return view;
+    });
+  }, [strokes, maskSize, viewSize]);
+  const hasMask = useMemo(() => !!maskSize && hasVisibleMask(strokes, maskSize), [strokes, maskSize]);
+  const doneCount = items.filter(i => i.status === 'done').length;
+  const failedCount = items.filter(i => i.status === 'error' || i.status === 'cancelled').length;
+
+  const showNotice = (text: string) => {
+    window.clearTimeout(noticeTimerRef.current);
+    setNotice(text);
+    noticeTimerRef.current = window.setTimeout(() => setNotice(null), 4000);
+  };
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) =>
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+
+  const selectItem = (item: BatchItem) => {
+    if (!maskSize) setMaskSize(item.size);
+    setSelectedId(item.id);
+    setReviewing(item.status === 'done');
+  };
+
+  // Strokes drawn on the selected image, recorded in the shared mask's pixels
+  const handleAddStrokes = (added: Stroke[], label: string) => {
+    if (!maskSize || !viewSize || sameSize(maskSize, viewSize)) {
+      mask.addStrokes(added, label);
+      return;
+    }
+    const canonical = remapStrokes(added, viewSize, maskSize);
+    // The editor keeps showing them exactly as drawn
+    const cache = viewCacheRef.current;
+    if (cache.size && sameSize(cache.size, viewSize)) canonical.forEach((stroke, i) => cache.strokes.set(stroke, added[i]));
+    mask.addStrokes(canonical, label);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    const added: BatchItem[] = [];
+    for (const file of files) {
+      try {
+        const src = await readAsDataURL(file);
+        const img = await loadImage(src);
+        added.push({
+          id: Math.random().toString(36).slice(2, 11),
+          name: file.name,
+          src,
+          size: { width: img.width, height: img.height },
+          status: 'pending',
+        });
+      } catch (err) {
+        console.warn(`Skipping ${file.name}`, err);
+      }
+    }
+    if (added.length < files.length) showNotice(`${files.length - added.length} 个文件无法读取，已跳过`);
+    if (added.length === 0) return;
+    setItems(prev => [...prev, ...added]);
+    if (!selected) selectItem(added[0]);
+  };
+
+  const runBatch = async (ids: string[]) => {
+    if (!maskSize || !hasMask || ids.length === 0 || isRunning) return;
+    // Snapshot the mask; edits made while the queue runs apply to the next run
+    const sharedMask = toMaskDocument(strokes, maskSize);
+    const refinement = maskRefinement;
+    const queue = items.filter(i => ids.includes(i.id));
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const options = {
+      signal: controller.signal,
+      templateId: inpaintTemplateId,
+      forceFresh,
+      compositing: { featherRadius, colorMatch }
+    };
+    setIsRunning(true);
+    setItems(prev => prev.map(item => ids.includes(item.id) ? { ...item, status: 'queued', error: undefined } : item));
+
+    await runWithConcurrency(queue, concurrency, async (item: BatchItem) => {
+      updateItem(item.id, { status: 'processing' });
+      try {
+        const result = await removeWatermark(item.src, maskFor(item, sharedMask, refinement, maskSize), options);
+        updateItem(item.id, { status: 'done', result });
+      } catch (err) {
+        const error = toAIError(err);
+        updateItem(item.id, isCancelled(error) ? { status: 'cancelled' } : { status: 'error', error });
+      }
+    }, controller.signal);
+
+    // Items the cancelled queue never reached
+    setItems(prev => prev.map(item => item.status === 'queued' ? { ...item, status: 'cancelled' } : item));
+    if (abortRef.current === controller) abortRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleStart = () => runBatch(items.filter(i => i.status !== 'done').map(i => i.id));
+  const handleRetryFailed = () => runBatch(items.filter(i => i.status === 'error' || i.status === 'cancelled').map(i => i.id));
+  const handleCancel = () => abortRef.current?.abort();
+
+  const handleRemove = (id: string) => {
+    setItems(prev => prev.filter(i => i.id !== id));
+    if (id === selectedId) setSelectedId(null);
+  };
+
+  const handleClear = () => {
+    setItems([]);
+    setSelectedId(null);
+    mask.load([]);
+    setMaskSize(null);
+  };
+
+  const handleDownloadZip = async () => {
+    const zip = new JSZip();
+    items.forEach(item => {
+      if (item.status !== 'done' || !item.result) return;
+      const safeName = item.name.replace(/\.[^/.]+$/, "");
+      zip.file(`${safeName}_clean.png`, item.result.split(',')[1], { base64: true });
+    });
+    const content = await zip.generateAsync({ type: "blob" });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(content);
+    link.download = `batch_clean_${Date.now()}.zip`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  };
+
+  const canvasTool = useMaskEditorShortcuts('批量 · 共享蒙版', {
+    enabled: !!selected && !reviewing,
+    tool,
+    setTool,
+    setBrushSize,
+    undo: mask.undo,
+    redo: mask.redo
+  });
+
+  useShortcuts('批量 · 队列', [
+    { combo: 'enter', description: '批量消除', run: handleStart, enabled: !isRunning && hasMask && items.length > doneCount },
+    { combo: 'escape', description: '取消队列', run: handleCancel, enabled: isRunning },
+    { combo: 'mod+s', description: '打包下载', run: handleDownloadZip, enabled: doneCount > 0, allowInInputs: true },
+  ]);
+
+  return (
+    <div className="w-full h-full flex flex-col md:flex-row overflow-hidden">
+
+      {/* QUEUE */}
+      <aside className="w-full md:w-80 shrink-0 bg-cyber-panel border-b md:border-b-0 md:border-r border-gray-800 flex flex-col max-h-[40vh] md:max-h-none">
+        <div className="p-4 border-b border-gray-800 space-y-3 shrink-0">
+          <div className="flex items-center gap-2">
+            <label className={`flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white rounded-lg cursor-pointer transition-colors border border-gray-700 text-sm ${isRunning ? 'opacity-50 pointer-events-none' : ''}`}>
+              <UploadIcon className="w-4 h-4" />
+              <span>添加图片</span>
+              <input type="file" multiple accept="image/*" className="hidden" onChange={handleUpload} />
+            </label>
+            <div className="flex items-center gap-1 bg-gray-900 px-2 py-2 rounded-lg border border-gray-700" title="同时处理的图片数">
+              <span className="text-xs text-gray-400">并发</span>
+              <select
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                disabled={isRunning}
+                className="bg-transparent text-white text-xs font-mono outline-none"
+              >
+                {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n} className="bg-gray-900">{n}</option>)}
+              </select>
+            </div>
+            {items.length > 0 && !isRunning && (
+              <button onClick={handleClear} className="p-2 text-red-500 hover:bg-red-900/20 rounded-lg" title="清空列表">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-2 px-3 py-2 bg-gray-900 rounded-lg border border-gray-700" title="边缘羽化 (px)">
+            <span className="text-xs text-gray-400 font-mono whitespace-nowrap">羽化 {featherRadius}</span>
+            <input type="range" min="0" max="40" value={featherRadius} onChange={(e) => setFeatherRadius(Number(e.target.value))} disabled={isRunning} className="flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-cyber-primary [&::-webkit-slider-thumb]:rounded-full" />
+            <button onClick={() => setColorMatch(prev => !prev)} disabled={isRunning} title="接缝颜色匹配" className={`text-xs font-mono px-2 py-0.5 rounded border ${colorMatch ? 'border-cyber-primary text-cyber-primary' : 'border-gray-700 text-gray-500'}`}>色彩匹配</button>
+          </div>
+          <div className="flex items-center gap-2">
+            <PromptTemplateSelect
+              kind="inpaint"
+              value={inpaintTemplateId}
+              onChange={setInpaintTemplateId}
+              className="flex-1 min-w-0 bg-gray-900 border border-gray-700 text-gray-300 text-xs rounded-lg p-2 outline-none focus:border-cyber-primary"
+            />
+            <button
+              onClick={() => setForceFresh(prev => !prev)}
+              disabled={isRunning}
+              title="跳过本地缓存，重新调用 AI"
+              className={`text-xs font-mono px-2 py-2 rounded-lg border ${forceFresh ? 'border-cyber-secondary text-cyber-secondary' : 'border-gray-700 text-gray-500'}`}
+            >
+              强制刷新
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">在任意一张图上绘制蒙版，将按比例映射到所有图片。</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {items.length === 0 ? (
+            <div className="h-full flex flex-col items-center justify-center text-gray-600 text-sm py-8">
+              <LayersIcon className="w-12 h-12 mb-3 opacity-20" />
+              上传多张图片开始批量处理
+            </div>
+          ) : (
+            items.map(item => {
+              const status = STATUS_STYLES[item.status];
+              return (
+                <div
+                  key={item.id}
+                  onClick={() => selectItem(item)}
+                  className={`group flex items-center gap-3 p-2 rounded-lg cursor-pointer border ${item.id === selectedId ? 'border-cyber-secondary bg-gray-900' : 'border-transparent hover:bg-gray-900/60'}`}
+                >
+                  <img src={item.result || item.src} alt={item.name} className="w-12 h-12 object-cover rounded bg-black shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-gray-300 truncate">{item.name}</p>
+                    <p className={`text-xs font-mono ${status.className}`} title={item.error ? `${item.error.message} ${item.error.hint}` : undefined}>
+                      {item.status === 'error' && item.error ? item.error.message : status.label}
+                    </p>
+                  </div>
+                  {(item.status === 'error' || item.status === 'cancelled') && !isRunning && (
+                    <button onClick={(e) => { e.stopPropagation(); runBatch([item.id]); }} disabled={!hasMask} className="text-xs px-2 py-1 rounded border border-gray-700 text-gray-300 hover:text-cyber-primary disabled:opacity-40">重试</button>
+                  )}
+                  {!isRunning && (
+                    <button onClick={(e) => { e.stopPropagation(); handleRemove(item.id); }} className="text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100" title="移除">✕</button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-800 space-y-2 shrink-0">
+          {items.length > 0 && (
+            <div className="flex justify-between text-xs font-mono text-gray-400">
+              <span>完成 {doneCount}/{items.length}</span>
+              {failedCount > 0 && <span className="text-red-400">失败 {failedCount}</span>}
+            </div>
+          )}
+          {isRunning ? (
+            <button onClick={handleCancel} className="w-full py-3 rounded-lg border border-gray-600 text-gray-300 hover:text-white hover:border-white transition-colors">取消</button>
+          ) : (
+            <button
+              onClick={handleStart}
+              disabled={!hasMask || items.length === doneCount}
+              className={`w-full flex items-center justify-center gap-2 py-3 rounded-lg font-bold transition-all ${hasMask && items.length > doneCount ? 'bg-gradient-to-r from-cyber-secondary to-purple-600 text-white' : 'bg-gray-800 text-gray-500 cursor-not-allowed'}`}
+            >
+              <MagicIcon className="w-5 h-5" /> 批量消除
+            </button>
+          )}
+          <div className="flex gap-2">
+            <button onClick={handleRetryFailed} disabled={isRunning || failedCount === 0 || !hasMask} className="flex-1 py-2 rounded-lg border border-gray-700 text-xs text-gray-300 hover:text-cyber-primary disabled:opacity-40">重试失败项</button>
+            <button onClick={handleDownloadZip} disabled={doneCount === 0} className="flex-1 flex items-center justify-center gap-1 py-2 rounded-lg border border-gray-700 text-xs text-gray-300 hover:text-green-400 disabled:opacity-40">
+              <ZipIcon className="w-4 h-4" /> 打包下载
+            </button>
+          </div>
+        </div>
+      </aside>
+
+      {/* WORKSPACE */}
+      <section className="flex-1 flex flex-col min-h-0 relative">
+        <div className="flex-1 relative overflow-hidden bg-[#020610]">
+          {!selected ? (
+            <div className="h-full flex items-center justify-center text-gray-600 text-sm">选择一张图片绘制共享蒙版</div>
+          ) : reviewing && selected.result ? (
+            <ComparisonView originalSrc={selected.src} processedSrc={selected.result} />
+          ) : (
+            <CanvasEditor
+              key={selected.id}
+              ref={canvasRef}
+              imageSrc={selected.src}
+              tool={canvasTool}
+              brushSize={brushSize}
+              wandOptions={DEFAULT_WAND_OPTIONS}
+              onMaskChange={() => {}}
+              strokes={viewStrokes}
+              onAddStrokes={handleAddStrokes}
+              refinement={maskRefinement}
+              viewMode={maskViewMode}
+            />
+          )}
+
+          {selected?.result && (
+            <button
+              onClick={() => setReviewing(prev => !prev)}
+              className="absolute top-4 left-4 z-10 px-3 py-1.5 rounded bg-black/60 border border-gray-700 text-xs text-gray-300 hover:text-white"
+            >
+              {reviewing ? '编辑蒙版' : '查看结果'}
+            </button>
+          )}
+
+          {notice && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-black/70 px-4 py-2 rounded-lg text-sm text-cyber-primary border border-cyber-primary/40 z-30 pointer-events-none">
+              {notice}
+            </div>
+          )}
+        </div>
+
+        {selected && !reviewing && (
+          <footer className="h-20 bg-cyber-panel border-t border-gray-800 flex items-center justify-center px-4 gap-4 shrink-0">
+            <MaskToolbar tool={tool} onToolChange={setTool} />
+            <div className="flex items-center gap-3 px-4 py-2 bg-gray-900 rounded-lg border border-gray-700 w-40 hidden sm:flex">
+              <input type="range" min="5" max="100" value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-cyber-secondary [&::-webkit-slider-thumb]:rounded-full" />
+            </div>
+            <MaskRefinePanel
+              refinement={maskRefinement}
+              onRefinementChange={setMaskRefinement}
+              viewMode={maskViewMode}
+              onViewModeChange={setMaskViewMode}
+            />
+            <MaskMenu
+              strokes={viewStrokes}
+              hasMask={hasMask}
+              getImageSize={() => canvasRef.current?.getImageSize() ?? null}
+              getMaskDataURL={() => canvasRef.current?.getMaskDataURL() ?? ''}
+              onAddStrokes={handleAddStrokes}
+              onNotice={showNotice}
+            />
+            <div className="flex items-center gap-2">
+              <button onClick={mask.undo} disabled={!mask.canUndo} title="撤销 (Ctrl+Z)" className="p-3 text-gray-400 hover:text-white disabled:opacity-30"><UndoIcon /></button>
+              <button onClick={mask.redo} disabled={!mask.canRedo} title="重做 (Shift+Ctrl+Z)" className="p-3 text-gray-400 hover:text-white disabled:opacity-30"><RedoIcon /></button>
+              <button onClick={mask.clear} disabled={strokes.length === 0} title="清空蒙版 (可撤销)" className="p-3 text-gray-400 hover:text-red-500 disabled:opacity-30"><TrashIcon /></button>
+            </div>
+          </footer>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default BatchProcessor;
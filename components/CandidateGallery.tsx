@@ -0,0 +1,37 @@
+import React from 'react';
+
+interface CandidateGalleryProps {
+  candidates: string[];
+  // Index of the chosen candidate; candidates may be identical, so never compared by value
+  selected: number;
+  onSelect: (index: number) => void;
+  // Records the candidate as its own history step
+  onKeep: (index: number) => void;
+}
+
+// Thumbnails of the results from one run; the selected one is what compare / apply / download use
+const CandidateGallery: React.FC<CandidateGalleryProps> = ({ candidates, selected, onSelect, onKeep }) => (
+  <div className="flex items-center gap-2">
+    {candidates.map((candidate, index) => (
+      <div key={index} className="relative group">
+        <button
+          onClick={() => onSelect(index)}
+          title={`候选 ${index + 1}`}
+          className={`block w-14 h-14 rounded-lg overflow-hidden border-2 transition-colors ${index === selected ? 'border-cyber-secondary shadow-[0_0_10px_rgba(244,63,94,0.5)]' : 'border-gray-700 opacity-70 hover:opacity-100'}`}
+        >
+          <img src={candidate} alt={`候选 ${index + 1}`} className="w-full h-full object-cover" />
+        </button>
+        <span className="absolute top-0.5 left-1 text-[10px] font-mono text-white drop-shadow pointer-events-none">{index + 1}</span>
+        <button
+          onClick={() => onKeep(index)}
+          title="存入历史记录"
+          className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-gray-800 border border-gray-600 text-[10px] text-gray-300 hover:text-cyber-primary hover:border-cyber-primary opacity-0 group-hover:opacity-100"
+        >
+          +
+        </button>
+      </div>
+    ))}
+  </div>
+);
+
+export default CandidateGallery;
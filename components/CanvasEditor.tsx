@@ -1,71 +1,147 @@
 import React, { useRef, useEffect, useState, useCallback, forwardRef, useImperativeHandle } from 'react';
-import { Point, Stroke, ToolType } from '../types';
+import { ImageDimensions, MaskViewMode, Point, Stroke, StrokeShape, ToolType } from '../types';
+import { hasVisibleMask, renderStrokes, renderStrokeSegments } from '../utils/maskRaster';
+import { DEFAULT_MASK_REFINEMENT, MaskRefinement, RefinedOverlay, isIdentityRefinement, renderRefinedMask, updateRefinedOverlay } from '../utils/maskRefinement';
+import { simplifyPath } from '../utils/simplifyPath';
+import { magicWandSelect, WandOptions } from '../utils/magicWand';
+import { createCanvas } from '../utils/imageUtils';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { useViewport } from '../hooks/useViewport';
+import ViewportControls from './ViewportControls';
 
 interface CanvasEditorProps {
   imageSrc: string;
   tool: ToolType;
   brushSize: number;
+  wandOptions: WandOptions;
   onMaskChange: (hasMask: boolean) => void;
   strokes: Stroke[];
-  setStrokes: React.Dispatch<React.SetStateAction<Stroke[]>>;
+  // Called once per finished stroke / shape / selection, with a label for the undo history
+  onAddStrokes: (strokes: Stroke[], label: string) => void;
+  // Applied to the preview and to getMaskDataURL
+  refinement?: MaskRefinement;
+  viewMode?: MaskViewMode;
+  // Zoom shortcuts; false while the editor is inactive (e.g. processing)
+  shortcutsEnabled?: boolean;
 }
 
+// Fraction of the brush width a feather-light pen stroke still gets
+const MIN_PRESSURE_WIDTH = 0.2;
+// Finished freehand and lasso paths drop points that deviate less than this (image pixels)
+const SIMPLIFY_TOLERANCE = 0.5;
+// Screen distance within which a click lands on an existing polygon vertex
+const POLYGON_SNAP_PX = 10;
+const MASK_COLOR = 'rgb(255, 0, 0)';
+// Refining runs distance transforms around each edit (over the whole image when the
+// refinement itself changes), so wait for edits to settle
+const REFINE_DELAY_MS = 120;
+
+const TOOL_LABELS: Record<ToolType, string> = {
+  [ToolType.BRUSH]: '画笔',
+  [ToolType.ERASER]: '橡皮擦',
+  [ToolType.RECT]: '矩形',
+  [ToolType.ELLIPSE]: '椭圆',
+  [ToolType.LASSO]: '套索',
+  [ToolType.POLYGON]: '多边形',
+  [ToolType.WAND]: '魔棒',
+  [ToolType.HAND]: '平移',
+};
+
 export interface CanvasEditorRef {
   getMaskDataURL: () => string;
+  getImageSize: () => ImageDimensions | null;
 }
 
 const CanvasEditor = forwardRef<CanvasEditorRef, CanvasEditorProps>(({
   imageSrc,
   tool,
   brushSize,
+  wandOptions,
   onMaskChange,
   strokes,
-  setStrokes
+  onAddStrokes,
+  refinement = DEFAULT_MASK_REFINEMENT,
+  viewMode = MaskViewMode.OVERLAY,
+  shortcutsEnabled = true
 }, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [scale, setScale] = useState(1);
-  const [offset, setOffset] = useState<Point>({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
   const [lastMousePos, setLastMousePos] = useState<Point | null>(null);
   const [imageObj, setImageObj] = useState<HTMLImageElement | null>(null);
+  const viewport = useViewport(containerRef, imageObj && { width: imageObj.width, height: imageObj.height }, imageObj?.src);
+  const { scale, offset } = viewport;
+  // The stroke or shape being drawn, grown in place on pointer moves without re-rendering;
+  // handed to onAddStrokes when the pointer lifts
+  const draftRef = useRef<Stroke | null>(null);
+  // Offscreen image-sized layer holding the rendered mask, so erasing strokes only cut
+  // the mask, not the photo, and frames don't repaint every stroke
+  const maskLayerRef = useRef<HTMLCanvasElement | null>(null);
+  // Strokes currently painted into the layer (null forces a full repaint)
+  const renderedStrokesRef = useRef<Stroke[] | null>(null);
+  // A committed brush stroke whose segments were already painted while drawing
+  const preRenderedRef = useRef<Stroke | null>(null);
+  // Preview of the refined mask and the strokes / refinement it was computed from
+  const refinedRef = useRef<RefinedOverlay | null>(null);
+  const frameRef = useRef(0);
+  const drawRef = useRef<() => void>(() => {});
+  // Polygon vertices placed so far; committed as a stroke once the path is closed
+  const [pendingPolygon, setPendingPolygon] = useState<Point[]>([]);
+  const [hoverPoint, setHoverPoint] = useState<Point | null>(null);
+  // Decoded pixels of the current image, read lazily for the magic wand
+  const imagePixelsRef = useRef<ImageData | null>(null);
+  // Active pointers in client coordinates, for two-finger pinch / pan
+  const pointersRef = useRef(new Map<number, Point>());
+  const pinchRef = useRef<{ distance: number; mid: Point } | null>(null);
+  // Set when the current single-pointer gesture placed a polygon vertex, so a late second finger can take it back
+  const placedVertexRef = useRef(false);
 
   // Load image
   useEffect(() => {
     const img = new Image();
     img.src = imageSrc;
     img.onload = () => {
+      imagePixelsRef.current = null;
+      renderedStrokesRef.current = null;
+      // The viewport fits the new image once it is set
       setImageObj(img);
-      // Center image initially
-      if (containerRef.current) {
-        const containerW = containerRef.current.clientWidth;
-        const containerH = containerRef.current.clientHeight;
-        const scaleW = containerW / img.width;
-        const scaleH = containerH / img.height;
-        const initialScale = Math.min(scaleW, scaleH) * 0.9;
-        
-        setScale(initialScale);
-        setOffset({
-          x: (containerW - img.width * initialScale) / 2,
-          y: (containerH - img.height * initialScale) / 2
-        });
-      }
     };
   }, [imageSrc]);
 
-  // Main Draw Loop
-  const draw = useCallback(() => {
+  // Brings the mask layer up to date: appended strokes are painted on top,
+  // anything else (undo, clear, load) repaints from scratch
+  const syncLayer = useCallback((target: Stroke[], force = false) => {
+    if (!imageObj) return;
+    let layer = maskLayerRef.current;
+    if (!layer || layer.width !== imageObj.width || layer.height !== imageObj.height) {
+      layer = document.createElement('canvas');
+      layer.width = imageObj.width;
+      layer.height = imageObj.height;
+      maskLayerRef.current = layer;
+      force = true;
+    }
+    const layerCtx = layer.getContext('2d');
+    if (!layerCtx) return;
+
+    const rendered = renderedStrokesRef.current;
+    if (!force && rendered && target.length >= rendered.length && rendered.every((s, i) => target[i] === s)) {
+      renderStrokes(layerCtx, target.slice(rendered.length).filter(s => s !== preRenderedRef.current), MASK_COLOR);
+    } else {
+      layerCtx.clearRect(0, 0, layer.width, layer.height);
+      renderStrokes(layerCtx, target, MASK_COLOR);
+    }
+    preRenderedRef.current = null;
+    renderedStrokesRef.current = target;
+  }, [imageObj]);
+
+  // Composites one frame: photo, mask layer, in-progress shape and polygon guides
+  drawRef.current = () => {
+    frameRef.current = 0;
     const canvas = canvasRef.current;
     if (!canvas || !imageObj) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Resize canvas to container
-    if (containerRef.current) {
-      canvas.width = containerRef.current.clientWidth;
-      canvas.height = containerRef.current.clientHeight;
-    }
-
     // Clear
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
@@ -75,125 +151,336 @@ const CanvasEditor = forwardRef<CanvasEditorRef, CanvasEditorProps>(({
     ctx.translate(offset.x, offset.y);
     ctx.scale(scale, scale);
 
-    // Draw Image
-    ctx.drawImage(imageObj, 0, 0);
+    // The refined preview lags behind edits; show the raw layer while it catches up
+    const refined = refinedRef.current;
+    const layer = refined && refined.strokes === strokes && !draftRef.current ? refined.canvas : maskLayerRef.current;
+
+    if (viewMode === MaskViewMode.MASK_ONLY) {
+      // White on black, as sent to the model: whiten the mask, then fill black behind it
+      if (layer) ctx.drawImage(layer, 0, 0);
+      ctx.globalCompositeOperation = 'source-atop';
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(0, 0, imageObj.width, imageObj.height);
+      ctx.globalCompositeOperation = 'destination-over';
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(0, 0, imageObj.width, imageObj.height);
+      ctx.globalCompositeOperation = 'source-over';
+    } else {
+      // Draw Image
+      ctx.drawImage(imageObj, 0, 0);
+
+      // Draw Mask: the layer is opaque, overlay it semi-transparent
+      if (layer && viewMode === MaskViewMode.OVERLAY) {
+        ctx.globalAlpha = 0.5;
+        ctx.drawImage(layer, 0, 0);
+        ctx.globalAlpha = 1;
+      }
+    }
+
+    // Shapes being dragged are previewed on screen only; subtractive ones darken
+    const draft = draftRef.current;
+    if (draft && draft.shape && draft.shape !== StrokeShape.FREEHAND) {
+      renderStrokes(ctx, [{ ...draft, erase: false }], draft.erase ? 'rgba(2, 6, 16, 0.6)' : 'rgba(255, 0, 0, 0.5)');
+    }
 
-    // Draw Mask (Strokes)
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-    
-    strokes.forEach(stroke => {
-      if (stroke.points.length === 0) return;
-      
+    // Draft polygon outline with a rubber band to the cursor
+    if (pendingPolygon.length > 0) {
       ctx.beginPath();
-      ctx.lineWidth = stroke.size;
-      // Semi-transparent red for visibility
-      ctx.strokeStyle = 'rgba(255, 0, 0, 0.5)'; 
-      
-      ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
-      for (let i = 1; i < stroke.points.length; i++) {
-        ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
-      }
+      ctx.moveTo(pendingPolygon[0].x, pendingPolygon[0].y);
+      pendingPolygon.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+      if (hoverPoint) ctx.lineTo(hoverPoint.x, hoverPoint.y);
+      ctx.lineWidth = 1.5 / scale;
+      ctx.strokeStyle = '#00f3ff';
+      ctx.setLineDash([6 / scale, 4 / scale]);
       ctx.stroke();
-    });
+      ctx.setLineDash([]);
+      ctx.fillStyle = '#00f3ff';
+      pendingPolygon.forEach(p => {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, 3 / scale, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    }
 
     ctx.restore();
-  }, [imageObj, offset, scale, strokes]);
+  };
+
+  // At most one repaint per animation frame, however many events arrive
+  const scheduleDraw = useCallback(() => {
+    if (!frameRef.current) frameRef.current = requestAnimationFrame(() => drawRef.current());
+  }, []);
+
+  useEffect(() => () => cancelAnimationFrame(frameRef.current), []);
 
   useEffect(() => {
-    requestAnimationFrame(draw);
-  }, [draw]);
+    syncLayer(strokes);
+    scheduleDraw();
+  }, [strokes, syncLayer, scheduleDraw]);
 
   useEffect(() => {
-    onMaskChange(strokes.length > 0);
-  }, [strokes, onMaskChange]);
+    scheduleDraw();
+  }, [offset, scale, pendingPolygon, hoverPoint, viewMode, scheduleDraw]);
+
+  useEffect(() => {
+    if (!imageObj || isIdentityRefinement(refinement)) {
+      refinedRef.current = null;
+      scheduleDraw();
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      // Stroke edits only recompute the area around the changed strokes
+      refinedRef.current = updateRefinedOverlay(refinedRef.current, strokes, imageObj.width, imageObj.height, refinement, [255, 0, 0]);
+      scheduleDraw();
+    }, REFINE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [strokes, refinement, imageObj, scheduleDraw]);
+
+  // Resize canvas to container only when the container changes
+  const { containerSize } = viewport;
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = containerSize.width;
+    canvas.height = containerSize.height;
+    scheduleDraw();
+  }, [containerSize, scheduleDraw]);
+
+  // Paints the newest segments of the brush stroke in progress straight into the layer
+  const paintDraft = (draft: Stroke, from: number) => {
+    const layerCtx = maskLayerRef.current?.getContext('2d');
+    if (layerCtx) renderStrokeSegments(layerCtx, draft, from, MASK_COLOR);
+  };
+
+  // Drops points the eye can't tell apart before the path joins the mask model
+  const simplifyStroke = (stroke: Stroke): Stroke => {
+    const keep = simplifyPath(stroke.points, SIMPLIFY_TOLERANCE);
+    if (keep.length === stroke.points.length) return stroke;
+    const { widths } = stroke;
+    return { ...stroke, points: keep.map(i => stroke.points[i]), ...(widths ? { widths: keep.map(i => widths[i]) } : {}) };
+  };
+
+  // Erasers can cancel every add stroke, so emptiness comes from the rendered mask
+  useEffect(() => {
+    if (!imageObj) return;
+    onMaskChange(hasVisibleMask(strokes, { width: imageObj.width, height: imageObj.height }));
+  }, [strokes, imageObj, onMaskChange]);
+
+  const closePolygon = useCallback(() => {
+    // Each click of the closing double-click already placed a vertex; drop the near-duplicates
+    const points = [...pendingPolygon];
+    while (points.length > 1) {
+      const last = points[points.length - 1];
+      const previous = points[points.length - 2];
+      if (Math.hypot(last.x - previous.x, last.y - previous.y) * scale >= POLYGON_SNAP_PX) break;
+      points.pop();
+    }
+    if (points.length >= 3) {
+      onAddStrokes([{ points, size: 0, shape: StrokeShape.POLYGON }], TOOL_LABELS[ToolType.POLYGON]);
+    }
+    setPendingPolygon([]);
+  }, [pendingPolygon, scale, onAddStrokes]);
+
+  // Switching tools abandons an unfinished polygon
+  useEffect(() => {
+    if (tool !== ToolType.POLYGON) setPendingPolygon([]);
+  }, [tool]);
+
+  // Outranks the host's shortcuts so Enter closes the path instead of starting a run
+  const drawingPolygon = pendingPolygon.length > 0;
+  useShortcuts('多边形选区', [
+    { combo: 'enter', description: '闭合多边形', run: closePolygon, enabled: drawingPolygon },
+    { combo: 'escape', description: '取消多边形', run: () => setPendingPolygon([]), enabled: drawingPolygon },
+    { combo: 'backspace', description: '删除上一个顶点', run: () => setPendingPolygon(prev => prev.slice(0, -1)), enabled: drawingPolygon },
+  ], 1);
 
   // Expose mask generation to parent
   useImperativeHandle(ref, () => ({
     getMaskDataURL: () => {
       if (!imageObj) return '';
-      // Create an offscreen canvas of the same size as the image
-      const offCanvas = document.createElement('canvas');
-      offCanvas.width = imageObj.width;
-      offCanvas.height = imageObj.height;
-      const ctx = offCanvas.getContext('2d');
-      if (!ctx) return '';
-
-      // Fill black (background)
-      ctx.fillStyle = '#000000';
-      ctx.fillRect(0, 0, offCanvas.width, offCanvas.height);
-
-      // Draw white strokes
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      ctx.strokeStyle = '#FFFFFF';
-
-      strokes.forEach(stroke => {
-        if (stroke.points.length === 0) return;
-        ctx.beginPath();
-        ctx.lineWidth = stroke.size;
-        ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
-        for (let i = 1; i < stroke.points.length; i++) {
-          ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
-        }
-        ctx.stroke();
-      });
-
-      return offCanvas.toDataURL('image/png');
-    }
+      // White-on-black mask at the image's own resolution, refined like the preview
+      return renderRefinedMask(strokes, imageObj.width, imageObj.height, refinement).toDataURL('image/png');
+    },
+    getImageSize: () => imageObj && { width: imageObj.width, height: imageObj.height }
   }));
 
   // Coordinate conversion
-  const getCanvasPoint = (e: React.MouseEvent | React.TouchEvent): Point => {
+  const getCanvasPoint = (clientX: number, clientY: number): Point => {
     if (!canvasRef.current) return { x: 0, y: 0 };
     const rect = canvasRef.current.getBoundingClientRect();
-    const clientX = 'touches' in e ? e.touches[0].clientX : (e as React.MouseEvent).clientX;
-    const clientY = 'touches' in e ? e.touches[0].clientY : (e as React.MouseEvent).clientY;
-
     return {
       x: (clientX - rect.left - offset.x) / scale,
       y: (clientY - rect.top - offset.y) / scale
     };
   };
 
-  const handlePointerDown = (e: React.MouseEvent | React.TouchEvent) => {
+  // Brush diameter in image pixels; pens scale it by pressure, other pointers report none
+  const getBrushWidth = (e: React.PointerEvent) => {
+    const base = brushSize / scale; // Adjust brush size by scale so it looks consistent on image
+    return e.pointerType === 'pen' ? base * (MIN_PRESSURE_WIDTH + (1 - MIN_PRESSURE_WIDTH) * e.pressure) : base;
+  };
+
+  const getPinch = () => {
+    const [a, b] = Array.from(pointersRef.current.values()) as Point[];
+    return { distance: Math.hypot(a.x - b.x, a.y - b.y), mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 } };
+  };
+
+  const startPinch = () => {
+    // The first finger already started drawing; a second one means this is a gesture instead
+    const draft = draftRef.current;
+    draftRef.current = null;
+    if (draft && (draft.shape ?? StrokeShape.FREEHAND) === StrokeShape.FREEHAND) syncLayer(strokes, true);
+    scheduleDraw();
+    if (placedVertexRef.current) setPendingPolygon(prev => prev.slice(0, -1));
+    placedVertexRef.current = false;
+    setIsDragging(false);
+    setLastMousePos(null);
+    pinchRef.current = getPinch();
+  };
+
+  const updatePinch = () => {
+    const previous = pinchRef.current;
+    if (!previous || !canvasRef.current || previous.distance === 0) return;
+    const current = getPinch();
+    const rect = canvasRef.current.getBoundingClientRect();
+    viewport.zoomAround(
+      previous.mid.x - rect.left,
+      previous.mid.y - rect.top,
+      current.distance / previous.distance,
+      current.mid.x - previous.mid.x,
+      current.mid.y - previous.mid.y
+    );
+    pinchRef.current = current;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
     e.preventDefault(); // Prevent scrolling on touch
-    setIsDragging(true);
-    const clientX = 'touches' in e ? e.touches[0].clientX : (e as React.MouseEvent).clientX;
-    const clientY = 'touches' in e ? e.touches[0].clientY : (e as React.MouseEvent).clientY;
-    setLastMousePos({ x: clientX, y: clientY });
+    canvasRef.current?.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointersRef.current.size === 2) {
+      startPinch();
+      return;
+    }
+    if (pointersRef.current.size > 2 || (e.pointerType === 'mouse' && e.button !== 0)) return;
 
-    if (tool === ToolType.BRUSH) {
-      const point = getCanvasPoint(e);
-      setStrokes(prev => [...prev, { points: [point], size: brushSize / scale }]); // Adjust brush size by scale so it looks consistent on image
+    setIsDragging(true);
+    setLastMousePos({ x: e.clientX, y: e.clientY });
+    placedVertexRef.current = false;
+
+    const point = getCanvasPoint(e.clientX, e.clientY);
+    // Holding Alt turns any shape tool subtractive
+    const subtract = e.altKey;
+    switch (tool) {
+      case ToolType.BRUSH:
+      case ToolType.ERASER: {
+        const stroke: Stroke = { points: [point], size: brushSize / scale, erase: tool === ToolType.ERASER };
+        if (e.pointerType === 'pen') stroke.widths = [getBrushWidth(e)];
+        draftRef.current = stroke;
+        paintDraft(stroke, 0);
+        scheduleDraw();
+        break;
+      }
+      case ToolType.RECT:
+      case ToolType.ELLIPSE:
+        draftRef.current = {
+          points: [point, point],
+          size: 0,
+          shape: tool === ToolType.RECT ? StrokeShape.RECT : StrokeShape.ELLIPSE,
+          erase: subtract
+        };
+        break;
+      case ToolType.LASSO:
+        draftRef.current = { points: [point], size: 0, shape: StrokeShape.POLYGON, erase: subtract };
+        break;
+      case ToolType.WAND: {
+        setIsDragging(false);
+        if (!imageObj) break;
+        if (!imagePixelsRef.current) {
+          const { ctx } = createCanvas(imageObj.width, imageObj.height);
+          ctx.drawImage(imageObj, 0, 0);
+          imagePixelsRef.current = ctx.getImageData(0, 0, imageObj.width, imageObj.height);
+        }
+        const region = magicWandSelect(imagePixelsRef.current, point, wandOptions);
+        if (region) {
+          onAddStrokes([{ points: [], size: 0, shape: StrokeShape.REGION, region, erase: subtract }], TOOL_LABELS[ToolType.WAND]);
+        }
+        break;
+      }
+      case ToolType.POLYGON: {
+        setIsDragging(false);
+        const first = pendingPolygon[0];
+        // Clicking back on the first vertex closes the path
+        if (first && pendingPolygon.length >= 3 && Math.hypot(point.x - first.x, point.y - first.y) * scale < POLYGON_SNAP_PX) {
+          closePolygon();
+        } else {
+          setPendingPolygon(prev => [...prev, point]);
+          placedVertexRef.current = true;
+        }
+        break;
+      }
     }
   };
 
-  const handlePointerMove = (e: React.MouseEvent | React.TouchEvent) => {
+  const handlePointerMove = (e: React.PointerEvent) => {
     e.preventDefault();
+    if (pointersRef.current.has(e.pointerId)) {
+      pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    }
+    if (pinchRef.current) {
+      if (pointersRef.current.size >= 2) updatePinch();
+      return;
+    }
+    if (tool === ToolType.POLYGON && pendingPolygon.length > 0) {
+      setHoverPoint(getCanvasPoint(e.clientX, e.clientY));
+    }
     if (!isDragging) return;
 
-    const clientX = 'touches' in e ? e.touches[0].clientX : (e as React.MouseEvent).clientX;
-    const clientY = 'touches' in e ? e.touches[0].clientY : (e as React.MouseEvent).clientY;
+    const { clientX, clientY } = e;
 
     if (tool === ToolType.HAND && lastMousePos) {
       const dx = clientX - lastMousePos.x;
       const dy = clientY - lastMousePos.y;
-      setOffset(prev => ({ x: prev.x + dx, y: prev.y + dy }));
-      setLastMousePos({ x: clientX, y: clientY });
-    } else if (tool === ToolType.BRUSH) {
-      const point = getCanvasPoint(e);
-      setStrokes(prev => {
-        const lastStroke = prev[prev.length - 1];
-        if (!lastStroke) return prev;
-        const newStroke = { ...lastStroke, points: [...lastStroke.points, point] };
-        return [...prev.slice(0, -1), newStroke];
-      });
+      viewport.panBy(dx, dy);
       setLastMousePos({ x: clientX, y: clientY });
+      return;
+    }
+
+    const draft = draftRef.current;
+    if (!draft) return;
+    const point = getCanvasPoint(clientX, clientY);
+    if (tool === ToolType.RECT || tool === ToolType.ELLIPSE) {
+      draft.points[1] = point;
+    } else {
+      draft.points.push(point);
+      if (draft.widths) draft.widths.push(getBrushWidth(e));
+      if (tool !== ToolType.LASSO) paintDraft(draft, draft.points.length - 1);
     }
+    scheduleDraw();
   };
 
-  const handlePointerUp = () => {
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+    if (pinchRef.current) {
+      // Lifting one finger of a pinch doesn't resume drawing with the other
+      if (pointersRef.current.size < 2) pinchRef.current = null;
+      return;
+    }
+    const draft = draftRef.current;
+    if (draft) {
+      draftRef.current = null;
+      const freehand = (draft.shape ?? StrokeShape.FREEHAND) === StrokeShape.FREEHAND;
+      // Drop shapes that enclose nothing (a click without a drag)
+      const [a, b] = draft.points;
+      const degenerate = draft.shape === StrokeShape.POLYGON
+        ? draft.points.length < 3
+        : !freehand && (!b || Math.abs(b.x - a.x) < 1 || Math.abs(b.y - a.y) < 1);
+      if (!degenerate) {
+        const committed = freehand || draft.shape === StrokeShape.POLYGON ? simplifyStroke(draft) : draft;
+        if (freehand) preRenderedRef.current = committed;
+        onAddStrokes([committed], TOOL_LABELS[tool]);
+      }
+      scheduleDraw();
+    }
+    placedVertexRef.current = false;
     setIsDragging(false);
     setLastMousePos(null);
   };
@@ -202,21 +489,11 @@ const CanvasEditor = forwardRef<CanvasEditorRef, CanvasEditorProps>(({
     const zoomIntensity = 0.1;
     const direction = e.deltaY < 0 ? 1 : -1;
     const zoomFactor = 1 + (direction * zoomIntensity);
-    
-    // Calculate new scale
-    const newScale = Math.max(0.1, Math.min(scale * zoomFactor, 10)); // Limit zoom
 
     // Zoom towards mouse position
     if (canvasRef.current) {
       const rect = canvasRef.current.getBoundingClientRect();
-      const mouseX = e.clientX - rect.left;
-      const mouseY = e.clientY - rect.top;
-
-      const newOffsetX = mouseX - (mouseX - offset.x) * (newScale / scale);
-      const newOffsetY = mouseY - (mouseY - offset.y) * (newScale / scale);
-
-      setOffset({ x: newOffsetX, y: newOffsetY });
-      setScale(newScale);
+      viewport.zoomAround(e.clientX - rect.left, e.clientY - rect.top, zoomFactor);
     }
   };
 
@@ -227,16 +504,16 @@ const CanvasEditor = forwardRef<CanvasEditorRef, CanvasEditorProps>(({
     >
       <canvas
         ref={canvasRef}
-        onMouseDown={handlePointerDown}
-        onMouseMove={handlePointerMove}
-        onMouseUp={handlePointerUp}
-        onMouseLeave={handlePointerUp}
-        onTouchStart={handlePointerDown}
-        onTouchMove={handlePointerMove}
-        onTouchEnd={handlePointerUp}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => setHoverPoint(null)}
         onWheel={handleWheel}
+        onDoubleClick={() => tool === ToolType.POLYGON && closePolygon()}
         className="block"
       />
+      <ViewportControls viewport={viewport} imageSrc={imageSrc} shortcutsEnabled={shortcutsEnabled} />
     </div>
   );
 });
@@ -1,79 +1,284 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { ImageDimensions, Point } from '../types';
+import { useViewport } from '../hooks/useViewport';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { DiffHeatmap, computeDiffHeatmap } from '../utils/imageDiff';
+import ViewportControls from './ViewportControls';
+import MagnifierLoupe from './MagnifierLoupe';
 
 interface ComparisonViewProps {
   originalSrc: string;
   processedSrc: string;
 }
 
+type CompareMode = 'split' | 'splitVertical' | 'sideBySide' | 'blink' | 'diff';
+
+const COMPARE_MODES: { mode: CompareMode; label: string; title: string }[] = [
+  { mode: 'split', label: '左右滑块', title: '拖动竖线对比' },
+  { mode: 'splitVertical', label: '上下滑块', title: '拖动横线对比' },
+  { mode: 'sideBySide', label: '并排', title: '并排显示, 缩放与平移同步' },
+  { mode: 'blink', label: '闪烁', title: '单击画面切换原图 / 效果' },
+  { mode: 'diff', label: '差异', title: '高亮所有被修改的像素' },
+];
+
+// Pointer travel below which a press counts as a click rather than a pan
+const CLICK_SLOP = 4;
+// Touch held this long without moving opens the loupe
+const LONG_PRESS_MS = 450;
+// Loupe magnifications, in screen pixels per image pixel
+const LOUPE_LEVELS = [2, 4, 8, 16];
+
 const ComparisonView: React.FC<ComparisonViewProps> = ({ originalSrc, processedSrc }) => {
+  const [mode, setMode] = useState<CompareMode>('split');
   const [sliderPosition, setSliderPosition] = useState(50);
-  const [isDragging, setIsDragging] = useState(false);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [diff, setDiff] = useState<DiffHeatmap | null>(null);
+  const [diffError, setDiffError] = useState(false);
+  const [imageSize, setImageSize] = useState<ImageDimensions | null>(null);
+  // Hover loupe for mouse and pen; touch opens it by long-press whatever this says
+  const [loupeEnabled, setLoupeEnabled] = useState(false);
+  const [loupeLevel, setLoupeLevel] = useState(4);
+  const [loupe, setLoupe] = useState<{ screen: Point; image: Point } | null>(null);
+  const longPressRef = useRef<{ timer: number; active: boolean } | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // The area the viewport measures: the left pane side by side, otherwise everything
+  const stageRef = useRef<HTMLDivElement>(null);
+  // What the active pointer is dragging: the split line or the view
+  const dragRef = useRef<{ kind: 'slider' } | { kind: 'pan'; start: Point; last: Point } | null>(null);
+  // Stage width before the last layout switch, until the view has been refitted to the new one
+  const refitFromWidthRef = useRef<number | null>(null);
+  const viewport = useViewport(stageRef, imageSize, originalSrc);
+  const { scale, offset, containerSize, fit } = viewport;
+  const sideBySide = mode === 'sideBySide';
+  const vertical = mode === 'splitVertical';
+
+  // The stage changes size when entering or leaving side-by-side; refit once it has
+  useEffect(() => {
+    refitFromWidthRef.current = containerSize.width;
+  }, [sideBySide]);
+
+  useEffect(() => {
+    if (refitFromWidthRef.current === null || refitFromWidthRef.current === containerSize.width) return;
+    refitFromWidthRef.current = null;
+    fit();
+  }, [containerSize.width, fit]);
+
+  // The heatmap is computed on first use and kept for this pair of images
+  useEffect(() => {
+    setDiff(null);
+    setDiffError(false);
+  }, [originalSrc, processedSrc]);
+
+  useEffect(() => {
+    if (mode !== 'diff' || diff || diffError) return;
+    let cancelled = false;
+    computeDiffHeatmap(originalSrc, processedSrc)
+      .then(result => {
+        if (cancelled) URL.revokeObjectURL(result.url);
+        else setDiff(result);
+      })
+      .catch(err => {
+        console.warn("Unable to compute difference heatmap", err);
+        if (!cancelled) setDiffError(true);
+      });
+    return () => { cancelled = true; };
+  }, [mode, diff, diffError, originalSrc, processedSrc]);
+
+  useEffect(() => () => {
+    if (diff) URL.revokeObjectURL(diff.url);
+  }, [diff]);
+
+  useShortcuts('对比', [
+    {
+      combo: 'm',
+      description: '切换对比模式',
+      run: () => setMode(prev => COMPARE_MODES[(COMPARE_MODES.findIndex(m => m.mode === prev) + 1) % COMPARE_MODES.length].mode)
+    },
+    { combo: 'x', description: '闪烁: 切换原图 / 效果', run: () => setShowOriginal(prev => !prev), enabled: mode === 'blink' },
+    { combo: 'z', description: '放大镜', run: () => setLoupeEnabled(prev => !prev) },
+    {
+      combo: '.',
+      description: '放大镜倍率 +',
+      run: () => setLoupeLevel(prev => LOUPE_LEVELS[Math.min(LOUPE_LEVELS.length - 1, LOUPE_LEVELS.indexOf(prev) + 1)]),
+      enabled: loupeEnabled
+    },
+    {
+      combo: ',',
+      description: '放大镜倍率 -',
+      run: () => setLoupeLevel(prev => LOUPE_LEVELS[Math.max(0, LOUPE_LEVELS.indexOf(prev) - 1)]),
+      enabled: loupeEnabled
+    },
+  ]);
 
-  const handleMouseDown = () => setIsDragging(true);
-  const handleMouseUp = () => setIsDragging(false);
-  
-  const handleMouseMove = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDragging || !containerRef.current) return;
-    
+  useEffect(() => () => window.clearTimeout(longPressRef.current?.timer), []);
+
+  // Places the loupe at a pointer position, or hides it off the image
+  const updateLoupe = (clientX: number, clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || !imageSize) return;
+    const stagePoint = toStagePoint(clientX, clientY);
+    const image = { x: (stagePoint.x - offset.x) / scale, y: (stagePoint.y - offset.y) / scale };
+    const inside = image.x >= 0 && image.y >= 0 && image.x < imageSize.width && image.y < imageSize.height;
+    setLoupe(inside ? { screen: { x: clientX - rect.left, y: clientY - rect.top }, image } : null);
+  };
+
+  const cancelLongPress = () => {
+    window.clearTimeout(longPressRef.current?.timer);
+    longPressRef.current = null;
+  };
+
+  const moveSlider = (e: React.PointerEvent) => {
+    if (!containerRef.current) return;
     const rect = containerRef.current.getBoundingClientRect();
-    const clientX = 'touches' in e ? e.touches[0].clientX : (e as React.MouseEvent).clientX;
-    const x = Math.max(0, Math.min(clientX - rect.left, rect.width));
-    const percentage = (x / rect.width) * 100;
-    
-    setSliderPosition(percentage);
+    const position = vertical
+      ? Math.max(0, Math.min(e.clientY - rect.top, rect.height)) / rect.height
+      : Math.max(0, Math.min(e.clientX - rect.left, rect.width)) / rect.width;
+    setSliderPosition(position * 100);
   };
 
-  useEffect(() => {
-    const stopDragging = () => setIsDragging(false);
-    window.addEventListener('mouseup', stopDragging);
-    window.addEventListener('touchend', stopDragging);
-    return () => {
-      window.removeEventListener('mouseup', stopDragging);
-      window.removeEventListener('touchend', stopDragging);
-    };
-  }, []);
+  // Pointer position relative to the pane under it; panes share the stage's coordinates
+  const toStagePoint = (clientX: number, clientY: number): Point => {
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    const x = clientX - rect.left;
+    return { x: sideBySide && x > rect.width ? x - rect.width : x, y: clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = { x: e.clientX, y: e.clientY };
+    dragRef.current = { kind: 'pan', start: point, last: point };
+    setLoupe(null);
+    if (e.pointerType === 'touch') {
+      cancelLongPress();
+      const { clientX, clientY } = e;
+      const timer = window.setTimeout(() => {
+        // Holding still turns the gesture into inspection instead of panning
+        longPressRef.current = { timer, active: true };
+        dragRef.current = null;
+        updateLoupe(clientX, clientY);
+      }, LONG_PRESS_MS);
+      longPressRef.current = { timer, active: false };
+    }
+  };
+
+  const handleSliderDown = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { kind: 'slider' };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const longPress = longPressRef.current;
+    if (longPress?.active) {
+      updateLoupe(e.clientX, e.clientY);
+      return;
+    }
+    if (longPress && drag?.kind === 'pan' && Math.hypot(e.clientX - drag.start.x, e.clientY - drag.start.y) >= CLICK_SLOP) {
+      cancelLongPress();
+    }
+    if (!drag) {
+      if (loupeEnabled && e.pointerType !== 'touch') updateLoupe(e.clientX, e.clientY);
+      return;
+    }
+    if (drag.kind === 'slider') {
+      moveSlider(e);
+    } else {
+      viewport.panBy(e.clientX - drag.last.x, e.clientY - drag.last.y);
+      drag.last = { x: e.clientX, y: e.clientY };
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (longPressRef.current?.active) setLoupe(null);
+    cancelLongPress();
+    if (mode === 'blink' && drag?.kind === 'pan' && Math.hypot(e.clientX - drag.start.x, e.clientY - drag.start.y) < CLICK_SLOP) {
+      setShowOriginal(prev => !prev);
+    }
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const point = toStagePoint(e.clientX, e.clientY);
+    viewport.zoomAround(point.x, point.y, e.deltaY < 0 ? 1.1 : 0.9);
+  };
+
+  // Every layer shares one transform so the images stay pixel-aligned at any zoom
+  const imageStyle: React.CSSProperties = imageSize ? {
+    width: imageSize.width,
+    height: imageSize.height,
+    transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})`,
+    transformOrigin: '0 0'
+  } : { visibility: 'hidden' };
+
+  const layer = (src: string, alt: string) => (
+    <img src={src} alt={alt} draggable={false} className="absolute top-0 left-0 max-w-none pointer-events-none" style={imageStyle} />
+  );
+
+  const label = (text: string, className: string, position: string) => (
+    <div className={`absolute ${position} bg-black/60 px-3 py-1 rounded text-sm border pointer-events-none ${className}`}>{text}</div>
+  );
+  const originalLabel = (position: string) => label('原图', 'text-cyber-secondary border-cyber-secondary/30', position);
+  const processedLabel = (position: string) => label('效果', 'text-cyber-primary border-cyber-primary/30', position);
+
+  const clipPath = vertical ? `inset(${sliderPosition}% 0 0 0)` : `inset(0 0 0 ${sliderPosition}%)`;
 
   return (
-    <div 
+    <div
       ref={containerRef}
-      className="relative w-full h-full select-none overflow-hidden flex items-center justify-center bg-[#020610]"
-      onMouseMove={handleMouseMove}
-      onTouchMove={handleMouseMove}
+      className={`relative w-full h-full select-none overflow-hidden bg-[#020610] touch-none ${mode === 'blink' ? 'cursor-pointer' : 'cursor-grab active:cursor-grabbing'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => { dragRef.current = null; cancelLongPress(); setLoupe(null); }}
+      onPointerLeave={(e) => e.pointerType !== 'touch' && setLoupe(null)}
+      onWheel={handleWheel}
     >
-        {/* Images Container to maintain aspect ratio logic */}
-        <div className="relative h-full w-full max-w-[90%] max-h-[90%] flex items-center justify-center">
-            
-             {/* Left Image (Original) - Shows when slider is to the right */}
-            <img 
-                src={originalSrc} 
-                alt="Original" 
-                className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 max-w-full max-h-full object-contain pointer-events-none"
-            />
+        {/* Measures the natural size once; the visible copies are the layers below */}
+        <img
+            src={originalSrc}
+            alt=""
+            className="hidden"
+            onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        />
 
-            {/* Right Image (Processed) - Overlays on top, clipped by slider */}
-            <div 
-                className="absolute top-0 left-0 w-full h-full pointer-events-none"
-                style={{ clipPath: `inset(0 0 0 ${sliderPosition}%)` }}
-            >
-                 <img 
-                    src={processedSrc} 
-                    alt="Processed" 
-                    className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 max-w-full max-h-full object-contain"
-                />
+        <div ref={stageRef} className={`absolute inset-y-0 left-0 overflow-hidden ${sideBySide ? 'w-1/2 border-r border-gray-800' : 'w-full'}`}>
+            {mode === 'diff' ? (
+                diff ? layer(diff.url, "Difference") : layer(originalSrc, "Original")
+            ) : mode === 'blink' ? (
+                layer(showOriginal ? originalSrc : processedSrc, showOriginal ? "Original" : "Processed")
+            ) : (
+                layer(originalSrc, "Original")
+            )}
+        </div>
+
+        {sideBySide && (
+            <div className="absolute inset-y-0 left-1/2 w-1/2 overflow-hidden">
+                {layer(processedSrc, "Processed")}
+                {processedLabel('bottom-4 left-4')}
+            </div>
+        )}
+
+        {(mode === 'split' || vertical) && (
+            <>
+            {/* Processed image overlays the original, clipped by the slider */}
+            <div className="absolute top-0 left-0 w-full h-full pointer-events-none" style={{ clipPath }}>
+                {layer(processedSrc, "Processed")}
             </div>
 
             {/* Slider Line */}
-            <div 
-                className="absolute top-0 bottom-0 w-1 bg-cyber-primary cursor-ew-resize z-10 hover:bg-white transition-colors"
-                style={{ left: `${sliderPosition}%` }}
-                onMouseDown={handleMouseDown}
-                onTouchStart={handleMouseDown}
+            <div
+                className={`absolute bg-cyber-primary z-10 hover:bg-white transition-colors ${vertical ? 'left-0 right-0 h-1 cursor-ns-resize' : 'top-0 bottom-0 w-1 cursor-ew-resize'}`}
+                style={vertical ? { top: `${sliderPosition}%` } : { left: `${sliderPosition}%` }}
+                onPointerDown={handleSliderDown}
             >
-                <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 bg-cyber-primary rounded-full flex items-center justify-center shadow-[0_0_15px_rgba(6,182,212,0.8)]">
+                <div className={`absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 bg-cyber-primary rounded-full flex items-center justify-center shadow-[0_0_15px_rgba(6,182,212,0.8)] ${vertical ? 'rotate-90' : ''}`}>
                     <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
                         <path d="M15 18L9 12L15 6" stroke="black" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                        <path d="M9 18L3 12L9 6" stroke="transparent" /> 
+                        <path d="M9 18L3 12L9 6" stroke="transparent" />
                     </svg>
                     <div className="absolute flex space-x-4 pointer-events-none">
                          <span className="text-[10px] text-black font-bold mr-1">&lt;</span>
@@ -81,11 +286,64 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({ originalSrc, processedS
                     </div>
                 </div>
             </div>
-            
-            {/* Labels */}
-            <div className="absolute bottom-4 left-4 bg-black/60 px-3 py-1 rounded text-cyber-secondary text-sm border border-cyber-secondary/30">原图</div>
-            <div className="absolute bottom-4 right-4 bg-black/60 px-3 py-1 rounded text-cyber-primary text-sm border border-cyber-primary/30">效果</div>
+            </>
+        )}
+
+        {/* Labels */}
+        {mode === 'split' && <>{originalLabel('bottom-4 left-4')}{processedLabel('bottom-14 right-4')}</>}
+        {vertical && <>{originalLabel('top-16 left-4')}{processedLabel('bottom-4 left-4')}</>}
+        {sideBySide && originalLabel('bottom-4 left-4')}
+        {mode === 'blink' && (showOriginal ? originalLabel('bottom-4 left-4') : processedLabel('bottom-4 left-4'))}
+        {mode === 'diff' && label(
+            diffError ? '差异图生成失败' : diff ? `差异: ${(diff.changedRatio * 100).toFixed(2)}% 像素被修改` : '正在计算差异...',
+            'text-yellow-400 border-yellow-400/30',
+            'bottom-4 left-4'
+        )}
+
+        {/* Mode switcher */}
+        <div
+            className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex bg-black/60 rounded-lg border border-gray-700 p-0.5"
+            onPointerDown={(e) => e.stopPropagation()}
+        >
+            {COMPARE_MODES.map(({ mode: m, label: text, title }) => (
+                <button
+                    key={m}
+                    onClick={() => setMode(m)}
+                    title={`${title} (M 切换)`}
+                    className={`px-2.5 py-1 rounded text-xs whitespace-nowrap ${mode === m ? 'bg-cyber-primary text-black font-bold' : 'text-gray-400 hover:text-white'}`}
+                >
+                    {text}
+                </button>
+            ))}
+            <div className="w-px bg-gray-700 mx-1" />
+            <button
+                onClick={() => setLoupeEnabled(prev => !prev)}
+                title="悬停放大查看接缝 (Z); 触屏长按"
+                className={`px-2.5 py-1 rounded text-xs whitespace-nowrap ${loupeEnabled ? 'bg-cyber-secondary text-white font-bold' : 'text-gray-400 hover:text-white'}`}
+            >
+                放大镜
+            </button>
+            <select
+                value={loupeLevel}
+                onChange={(e) => setLoupeLevel(Number(e.target.value))}
+                title="放大倍率 (, / .)"
+                className="bg-transparent text-xs text-gray-300 font-mono outline-none px-1"
+            >
+                {LOUPE_LEVELS.map(level => <option key={level} value={level} className="bg-gray-900">{level}×</option>)}
+            </select>
         </div>
+
+        {(loupeEnabled || loupe) && imageSize && (
+            <MagnifierLoupe
+                originalSrc={originalSrc}
+                processedSrc={processedSrc}
+                position={loupe}
+                containerSize={{ width: containerRef.current?.clientWidth ?? 0, height: containerRef.current?.clientHeight ?? 0 }}
+                magnification={loupeLevel}
+            />
+        )}
+
+        <ViewportControls viewport={viewport} imageSrc={processedSrc} />
     </div>
   );
 };
@@ -0,0 +1,28 @@
+import React from 'react';
+import { AIError } from '../services/aiErrors';
+
+interface ErrorBannerProps {
+  error: AIError;
+  onDismiss: () => void;
+  onRetry?: () => void;
+}
+
+// Shared error banner for every tool. Must be placed inside a `relative` container.
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onDismiss, onRetry }) => {
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-red-900/90 text-white px-6 py-3 rounded border border-red-500 shadow-xl z-50 max-w-[90%]">
+      <div className="flex items-start">
+        <div className="flex-1">
+          <p>{error.message}</p>
+          <p className="text-xs text-red-200/80 mt-1">{error.hint}</p>
+        </div>
+        {error.retryable && onRetry && (
+          <button onClick={onRetry} className="ml-4 px-3 py-1 text-xs font-bold rounded border border-red-300 hover:bg-red-800">重试</button>
+        )}
+        <button onClick={onDismiss} className="ml-4 font-bold">X</button>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorBanner;
@@ -2,6 +2,7 @@
 import React, { useState, useCallback } from 'react';
 import JSZip from 'jszip';
 import { UploadIcon, GridSplitIcon, DownloadIcon, ZipIcon, TrashIcon } from './Icons';
+import { useShortcuts } from '../hooks/useShortcuts';
 
 interface SplitImage {
   id: string;
@@ -127,6 +128,13 @@ const ImageSplitter: React.FC = () => {
     document.body.removeChild(link);
   };
 
+  const doneCount = images.filter(i => i.status === 'done').length;
+
+  useShortcuts('九宫格切片', [
+    { combo: 'enter', description: '开始切分', run: handleProcessAll, enabled: images.length > 0 && !isProcessing },
+    { combo: 'mod+s', description: '打包下载', run: handleDownloadZip, enabled: doneCount > 0, allowInInputs: true },
+  ]);
+
   return (
     <div className="w-full h-full flex flex-col p-4 md:p-8 max-w-6xl mx-auto overflow-hidden">
       
@@ -175,6 +183,7 @@ const ImageSplitter: React.FC = () => {
                 <button 
                     onClick={handleProcessAll}
                     disabled={images.length === 0 || isProcessing}
+                    title="Enter"
                     className={`flex-1 md:flex-none flex items-center justify-center gap-2 px-6 py-3 rounded-lg font-bold transition-all ${
                         images.length > 0 && !isProcessing
                         ? 'bg-cyber-primary text-black hover:bg-cyan-400 shadow-[0_0_15px_rgba(6,182,212,0.4)]'
@@ -191,9 +200,10 @@ const ImageSplitter: React.FC = () => {
 
                 <button 
                    onClick={handleDownloadZip}
-                   disabled={images.filter(i => i.status === 'done').length === 0}
+                   disabled={doneCount === 0}
+                   title="Ctrl+S"
                    className={`flex-1 md:flex-none flex items-center justify-center gap-2 px-6 py-3 rounded-lg font-bold transition-all ${
-                       images.filter(i => i.status === 'done').length > 0
+                       doneCount > 0
                        ? 'bg-gradient-to-r from-green-500 to-emerald-600 text-white shadow-lg'
                        : 'bg-gray-800 text-gray-500 cursor-not-allowed'
                    }`}
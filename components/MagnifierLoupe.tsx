@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageDimensions, Point } from '../types';
+import { loadImage } from '../utils/imageUtils';
+
+interface MagnifierLoupeProps {
+  originalSrc: string;
+  processedSrc: string;
+  // Image pixel under the pointer and the pointer within the container the loupe
+  // is drawn in; null hides the loupe but keeps its images loaded
+  position: { image: Point; screen: Point } | null;
+  containerSize: ImageDimensions;
+  // Screen pixels per image pixel
+  magnification: number;
+}
+
+// Side of each of the two panels, in screen pixels
+const PANEL_SIZE = 180;
+// Gap between the pointer and the loupe, so a finger or cursor doesn't cover it
+const POINTER_GAP = 28;
+
+/**
+ * Original and processed pixels around the pointer, side by side and unsmoothed,
+ * so seams and texture artifacts are visible at the pixel level.
+ */
+const MagnifierLoupe: React.FC<MagnifierLoupeProps> = ({ originalSrc, processedSrc, position, containerSize, magnification }) => {
+  const [images, setImages] = useState<{ original: HTMLImageElement; processed: HTMLImageElement } | null>(null);
+  const originalCanvasRef = useRef<HTMLCanvasElement>(null);
+  const processedCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setImages(null);
+    Promise.all([loadImage(originalSrc), loadImage(processedSrc)])
+      .then(([original, processed]) => !cancelled && setImages({ original, processed }))
+      .catch(err => console.warn("Unable to load images for the loupe", err));
+    return () => { cancelled = true; };
+  }, [originalSrc, processedSrc]);
+
+  useEffect(() => {
+    if (!images || !position) return;
+    const imagePoint = position.image;
+    const { original, processed } = images;
+    // Source square in original pixels; the processed image may be stored at another size
+    const side = PANEL_SIZE / magnification;
+    const sx = imagePoint.x - side / 2;
+    const sy = imagePoint.y - side / 2;
+    const rx = processed.width / original.width;
+    const ry = processed.height / original.height;
+
+    const paint = (canvas: HTMLCanvasElement | null, image: HTMLImageElement, kx: number, ky: number) => {
+      const ctx = canvas?.getContext('2d');
+      if (!ctx) return;
+      ctx.imageSmoothingEnabled = false;
+      ctx.fillStyle = '#020610';
+      ctx.fillRect(0, 0, PANEL_SIZE, PANEL_SIZE);
+      ctx.drawImage(image, sx * kx, sy * ky, side * kx, side * ky, 0, 0, PANEL_SIZE, PANEL_SIZE);
+      // Outline the pixel under the pointer
+      ctx.strokeStyle = 'rgba(6, 182, 212, 0.9)';
+      ctx.lineWidth = 1;
+      const px = (Math.floor(imagePoint.x) - sx) * magnification;
+      const py = (Math.floor(imagePoint.y) - sy) * magnification;
+      ctx.strokeRect(px - 0.5, py - 0.5, magnification + 1, magnification + 1);
+    };
+
+    paint(originalCanvasRef.current, original, 1, 1);
+    paint(processedCanvasRef.current, processed, rx, ry);
+  }, [images, position, magnification]);
+
+  if (!position) return null;
+  const { image: imagePoint, screen: screenPoint } = position;
+
+  // Keep the loupe inside the container, flipping to the other side of the pointer near edges
+  const width = PANEL_SIZE * 2 + 6;
+  const height = PANEL_SIZE + 28;
+  const left = screenPoint.x + POINTER_GAP + width > containerSize.width ? screenPoint.x - POINTER_GAP - width : screenPoint.x + POINTER_GAP;
+  const top = screenPoint.y - POINTER_GAP - height < 0 ? screenPoint.y + POINTER_GAP : screenPoint.y - POINTER_GAP - height;
+
+  return (
+    <div
+      className="absolute z-30 pointer-events-none bg-black/80 border border-cyber-primary/50 rounded-lg p-1 shadow-[0_0_20px_rgba(0,0,0,0.6)]"
+      style={{ left: Math.max(0, left), top: Math.max(0, top) }}
+    >
+      <div className="flex gap-1">
+        <canvas ref={originalCanvasRef} width={PANEL_SIZE} height={PANEL_SIZE} className="rounded" />
+        <canvas ref={processedCanvasRef} width={PANEL_SIZE} height={PANEL_SIZE} className="rounded" />
+      </div>
+      <div className="flex justify-between px-1 pt-1 text-[10px] font-mono">
+        <span className="text-cyber-secondary">原图</span>
+        <span className="text-gray-400">{Math.floor(imagePoint.x)}, {Math.floor(imagePoint.y)} · {magnification}×</span>
+        <span className="text-cyber-primary">效果</span>
+      </div>
+    </div>
+  );
+};
+
+export default MagnifierLoupe;
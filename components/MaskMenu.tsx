@@ -0,0 +1,167 @@
+import React, { useState, useRef } from 'react';
+import { ImageDimensions, Stroke } from '../types';
+import { DownloadIcon, TrashIcon, UploadIcon } from './Icons';
+import { fromMaskDocument, maskImageToStroke, parseMaskDocument, toMaskDocument } from '../utils/maskSerialization';
+import { MaskPreset, deleteMaskPreset, listMaskPresets, saveMaskPreset } from '../services/maskPresets';
+
+interface MaskMenuProps {
+  strokes: Stroke[];
+  hasMask: boolean;
+  // Null until the editor has loaded the image
+  getImageSize: () => ImageDimensions | null;
+  getMaskDataURL: () => string;
+  onAddStrokes: (strokes: Stroke[], label: string) => void;
+  onNotice: (text: string) => void;
+}
+
+const downloadHref = (href: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+const readFile = (file: File, as: 'text' | 'dataURL'): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    if (as === 'text') reader.readAsText(file);
+    else reader.readAsDataURL(file);
+  });
+
+const MaskMenu: React.FC<MaskMenuProps> = ({ strokes, hasMask, getImageSize, getMaskDataURL, onAddStrokes, onNotice }) => {
+  const [open, setOpen] = useState(false);
+  const [presets, setPresets] = useState<MaskPreset[]>(() => listMaskPresets());
+  const [presetName, setPresetName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExportPng = () => {
+    const dataURL = getMaskDataURL();
+    if (dataURL) downloadHref(dataURL, `magic-zheng-mask-${Date.now()}.png`);
+  };
+
+  const handleExportJson = () => {
+    const size = getImageSize();
+    if (!size) return;
+    const blob = new Blob([JSON.stringify(toMaskDocument(strokes, size))], { type: 'application/json' });
+    const href = URL.createObjectURL(blob);
+    downloadHref(href, `magic-zheng-mask-${Date.now()}.json`);
+    URL.revokeObjectURL(href);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    const size = getImageSize();
+    if (!file || !size) return;
+    try {
+      if (file.type === 'application/json' || file.name.endsWith('.json')) {
+        onAddStrokes(fromMaskDocument(parseMaskDocument(await readFile(file, 'text')), size), '导入蒙版');
+      } else {
+        const stroke = await maskImageToStroke(await readFile(file, 'dataURL'), size);
+        if (!stroke) {
+          onNotice("导入的蒙版为空");
+          return;
+        }
+        onAddStrokes([stroke], '导入蒙版');
+      }
+      onNotice(`已导入蒙版: ${file.name}`);
+      setOpen(false);
+    } catch (err) {
+      onNotice(err instanceof Error ? err.message : "蒙版导入失败");
+    }
+  };
+
+  const handleSavePreset = () => {
+    const size = getImageSize();
+    if (!size || !presetName.trim()) return;
+    try {
+      saveMaskPreset(presetName, toMaskDocument(strokes, size));
+      setPresets(listMaskPresets());
+      setPresetName("");
+      onNotice(`已保存预设: ${presetName.trim()}`);
+    } catch (err) {
+      // Large wand regions can exceed the localStorage quota
+      console.warn("Unable to save mask preset", err);
+      onNotice("预设保存失败: 浏览器存储空间不足");
+    }
+  };
+
+  const handleApplyPreset = (preset: MaskPreset) => {
+    const size = getImageSize();
+    if (!size) return;
+    onAddStrokes(fromMaskDocument(preset.mask, size), `预设: ${preset.name}`);
+    onNotice(`已应用预设: ${preset.name}`);
+    setOpen(false);
+  };
+
+  const handleDeletePreset = (id: string) => {
+    deleteMaskPreset(id);
+    setPresets(listMaskPresets());
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        title="蒙版导入 / 导出 / 预设"
+        className={`px-3 py-2.5 rounded-lg border text-xs ${open ? 'border-cyber-primary text-cyber-primary' : 'border-gray-700 bg-gray-900 text-gray-300 hover:text-white'}`}
+      >
+        蒙版
+      </button>
+      <input ref={fileInputRef} type="file" accept="image/png,application/json,.json" className="hidden" onChange={handleImport} />
+
+      {open && (
+        <div className="absolute bottom-full left-0 mb-3 w-72 bg-cyber-panel border border-gray-700 rounded-lg shadow-xl z-50 p-3 space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            <button onClick={handleExportPng} disabled={!hasMask} className="flex flex-col items-center gap-1 py-2 rounded border border-gray-700 text-xs text-gray-300 hover:text-cyber-primary disabled:opacity-40">
+              <DownloadIcon className="w-4 h-4" /> PNG
+            </button>
+            <button onClick={handleExportJson} disabled={!hasMask} className="flex flex-col items-center gap-1 py-2 rounded border border-gray-700 text-xs text-gray-300 hover:text-cyber-primary disabled:opacity-40">
+              <DownloadIcon className="w-4 h-4" /> JSON
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className="flex flex-col items-center gap-1 py-2 rounded border border-gray-700 text-xs text-gray-300 hover:text-cyber-primary">
+              <UploadIcon className="w-4 h-4" /> 导入
+            </button>
+          </div>
+
+          <div className="border-t border-gray-800 pt-3">
+            <p className="text-xs text-gray-500 mb-2">预设 (按比例映射到当前图片)</p>
+            {presets.length === 0 ? (
+              <p className="text-xs text-gray-600 mb-2">暂无预设</p>
+            ) : (
+              <div className="max-h-40 overflow-y-auto mb-2">
+                {presets.map(preset => (
+                  <div key={preset.id} className="flex items-center gap-2 group">
+                    <button onClick={() => handleApplyPreset(preset)} className="flex-1 text-left truncate px-2 py-1.5 rounded text-xs text-gray-300 hover:bg-gray-800 hover:text-cyber-primary">
+                      {preset.name}
+                    </button>
+                    <button onClick={() => handleDeletePreset(preset.id)} title="删除预设" className="p-1 text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100">
+                      <TrashIcon className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+                placeholder="如: 抖音 logo 右下角"
+                className="flex-1 min-w-0 bg-gray-900 border border-gray-700 text-gray-200 text-xs rounded p-2 outline-none focus:border-cyber-primary"
+              />
+              <button onClick={handleSavePreset} disabled={!hasMask || !presetName.trim()} className="px-3 rounded bg-cyber-primary text-black text-xs font-bold disabled:opacity-40">保存</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MaskMenu;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { MaskViewMode } from '../types';
+import { DEFAULT_MASK_REFINEMENT, MaskRefinement, isIdentityRefinement } from '../utils/maskRefinement';
+
+interface MaskRefinePanelProps {
+  refinement: MaskRefinement;
+  onRefinementChange: (refinement: MaskRefinement) => void;
+  viewMode: MaskViewMode;
+  onViewModeChange: (mode: MaskViewMode) => void;
+}
+
+const VIEW_MODES: { mode: MaskViewMode; label: string }[] = [
+  { mode: MaskViewMode.OVERLAY, label: '叠加' },
+  { mode: MaskViewMode.MASK_ONLY, label: '仅蒙版' },
+  { mode: MaskViewMode.HIDDEN, label: '隐藏' },
+];
+
+const SLIDER_CLASS = "flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-cyber-primary [&::-webkit-slider-thumb]:rounded-full";
+
+const MaskRefinePanel: React.FC<MaskRefinePanelProps> = ({ refinement, onRefinementChange, viewMode, onViewModeChange }) => {
+  const [open, setOpen] = useState(false);
+  const active = !isIdentityRefinement(refinement);
+
+  const update = (patch: Partial<MaskRefinement>) => onRefinementChange({ ...refinement, ...patch });
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        title="扩展 / 收缩、柔边、反选与显示方式"
+        className={`px-3 py-2.5 rounded-lg border text-xs ${open || active ? 'border-cyber-primary text-cyber-primary' : 'border-gray-700 bg-gray-900 text-gray-300 hover:text-white'}`}
+      >
+        精修{active && ' •'}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full left-0 mb-3 w-64 bg-cyber-panel border border-gray-700 rounded-lg shadow-xl z-50 p-3 space-y-3">
+          <div>
+            <p className="text-xs text-gray-500 mb-2">显示</p>
+            <div className="grid grid-cols-3 gap-1">
+              {VIEW_MODES.map(({ mode, label }) => (
+                <button
+                  key={mode}
+                  onClick={() => onViewModeChange(mode)}
+                  className={`py-1.5 rounded border text-xs ${viewMode === mode ? 'border-cyber-primary text-cyber-primary' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="border-t border-gray-800 pt-3 space-y-3">
+            <label className="flex items-center gap-2 text-xs text-gray-400 font-mono" title="正值扩展、负值收缩蒙版 (px)">
+              <span className="w-16 whitespace-nowrap">扩展 {refinement.grow > 0 ? `+${refinement.grow}` : refinement.grow}</span>
+              <input type="range" min="-30" max="30" value={refinement.grow} onChange={(e) => update({ grow: Number(e.target.value) })} className={SLIDER_CLASS} />
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-400 font-mono" title="蒙版边缘向外渐隐的宽度 (px)">
+              <span className="w-16 whitespace-nowrap">柔边 {refinement.feather}</span>
+              <input type="range" min="0" max="30" value={refinement.feather} onChange={(e) => update({ feather: Number(e.target.value) })} className={SLIDER_CLASS} />
+            </label>
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => update({ invert: !refinement.invert })}
+                title="处理蒙版以外的区域"
+                className={`text-xs font-mono px-2 py-1 rounded border ${refinement.invert ? 'border-cyber-primary text-cyber-primary' : 'border-gray-700 text-gray-500'}`}
+              >
+                反选
+              </button>
+              <button onClick={() => onRefinementChange(DEFAULT_MASK_REFINEMENT)} disabled={!active} className="text-xs text-gray-500 hover:text-white disabled:opacity-40">
+                重置
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MaskRefinePanel;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { ToolType } from '../types';
+import {
+  BrushIcon, HandIcon, EraserIcon, RectSelectIcon, EllipseSelectIcon, LassoIcon, PolygonIcon, WandIcon
+} from './Icons';
+import { TOOL_KEYS } from '../hooks/useMaskEditorShortcuts';
+
+// Mask tools in toolbar order (HAND is rendered separately)
+const MASK_TOOLS: { tool: ToolType; label: string; Icon: React.FC<{ className?: string }> }[] = [
+  { tool: ToolType.BRUSH, label: '画笔', Icon: BrushIcon },
+  { tool: ToolType.ERASER, label: '橡皮擦', Icon: EraserIcon },
+  { tool: ToolType.RECT, label: '矩形 (Alt 减选)', Icon: RectSelectIcon },
+  { tool: ToolType.ELLIPSE, label: '椭圆 (Alt 减选)', Icon: EllipseSelectIcon },
+  { tool: ToolType.LASSO, label: '套索 (Alt 减选)', Icon: LassoIcon },
+  { tool: ToolType.POLYGON, label: '多边形: 单击落点, 双击/回车闭合, Esc 取消', Icon: PolygonIcon },
+  { tool: ToolType.WAND, label: '魔棒: 按颜色选区 (Alt 减选)', Icon: WandIcon },
+];
+
+interface MaskToolbarProps {
+  tool: ToolType;
+  onToolChange: (tool: ToolType) => void;
+}
+
+const MaskToolbar: React.FC<MaskToolbarProps> = ({ tool, onToolChange }) => (
+  <div className="flex items-center bg-gray-900 rounded-lg p-1 border border-gray-700">
+    {MASK_TOOLS.map(({ tool: t, label, Icon }) => (
+      <button key={t} onClick={() => onToolChange(t)} title={`${label} [${TOOL_KEYS[t].toUpperCase()}]`} className={`p-2.5 rounded ${tool === t ? 'bg-cyber-secondary text-white' : 'text-gray-400'}`}><Icon className="w-5 h-5" /></button>
+    ))}
+    <button onClick={() => onToolChange(ToolType.HAND)} title={`平移 [${TOOL_KEYS[ToolType.HAND].toUpperCase()}] (按住 Space 临时平移)`} className={`p-2.5 rounded ${tool === ToolType.HAND ? 'bg-cyber-primary text-black' : 'text-gray-400'}`}><HandIcon className="w-5 h-5" /></button>
+  </div>
+);
+
+export default MaskToolbar;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { TrashIcon } from './Icons';
+import {
+  PromptKind, PromptTemplate, PROMPT_KIND_LABELS, TEMPLATE_VARIABLES,
+  listTemplates, saveTemplateVersion, deleteTemplate, extractVariables, getSelectedTemplate, setSelectedTemplateId
+} from '../services/promptTemplates';
+import { MODAL_PRIORITY, useShortcuts } from '../hooks/useShortcuts';
+
+interface PromptTemplateManagerProps {
+  onClose: () => void;
+}
+
+const KINDS: PromptKind[] = ['inpaint', 'storyboard', 'shot'];
+
+const PromptTemplateManager: React.FC<PromptTemplateManagerProps> = ({ onClose }) => {
+  const [kind, setKind] = useState<PromptKind>('inpaint');
+  const [templates, setTemplates] = useState<PromptTemplate[]>(listTemplates('inpaint'));
+  const [current, setCurrent] = useState<PromptTemplate>(getSelectedTemplate('inpaint'));
+  const [draftName, setDraftName] = useState(current.name);
+  const [draftBody, setDraftBody] = useState(current.body);
+
+  useShortcuts('提示词模板', [{ combo: 'escape', description: '关闭模板管理', run: onClose }], MODAL_PRIORITY);
+
+  const selectTemplate = (template: PromptTemplate) => {
+    setCurrent(template);
+    setDraftName(template.name);
+    setDraftBody(template.body);
+  };
+
+  const switchKind = (next: PromptKind) => {
+    setKind(next);
+    setTemplates(listTemplates(next));
+    selectTemplate(getSelectedTemplate(next));
+  };
+
+  const refresh = (select: PromptTemplate) => {
+    setTemplates(listTemplates(kind));
+    selectTemplate(select);
+  };
+
+  // Saving never overwrites: it appends a version to the current family
+  const handleSaveVersion = () => {
+    const saved = saveTemplateVersion({ kind, name: draftName, body: draftBody, family: current.family });
+    setSelectedTemplateId(kind, saved.id);
+    refresh(saved);
+  };
+
+  const handleSaveAsNew = () => {
+    const saved = saveTemplateVersion({ kind, name: draftName, body: draftBody });
+    setSelectedTemplateId(kind, saved.id);
+    refresh(saved);
+  };
+
+  const handleDelete = (template: PromptTemplate) => {
+    deleteTemplate(template.id);
+    setTemplates(listTemplates(kind));
+    if (template.id === current.id) selectTemplate(getSelectedTemplate(kind));
+  };
+
+  const known = TEMPLATE_VARIABLES[kind];
+  const unknown = extractVariables(draftBody).filter(v => !known.includes(v));
+  const isDirty = draftBody !== current.body || draftName !== current.name;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-5xl h-[85vh] bg-cyber-panel border border-gray-700 rounded-2xl shadow-2xl p-6 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4 shrink-0">
+          <h2 className="text-xl font-bold text-white">提示词模板 (PROMPTS)</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white font-bold">✕</button>
+        </div>
+
+        <div className="flex bg-gray-900 p-1 rounded-lg border border-gray-700 mb-4 shrink-0">
+          {KINDS.map(k => (
+            <button
+              key={k}
+              onClick={() => switchKind(k)}
+              className={`flex-1 py-2 rounded-md text-xs font-bold transition-all ${kind === k ? 'bg-cyber-primary text-black' : 'text-gray-500 hover:text-gray-300'}`}
+            >
+              {PROMPT_KIND_LABELS[k]}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 flex gap-4 min-h-0">
+          {/* Version list */}
+          <div className="w-64 shrink-0 overflow-y-auto space-y-1 pr-1">
+            {templates.map(t => (
+              <div
+                key={t.id}
+                onClick={() => selectTemplate(t)}
+                className={`group flex items-center justify-between px-3 py-2 rounded-lg cursor-pointer border ${t.id === current.id ? 'border-cyber-primary bg-cyber-primary/10' : 'border-transparent hover:bg-gray-800'}`}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-200 truncate">{t.name}</p>
+                  <p className="text-[10px] font-mono text-gray-500">{t.id}{t.builtIn ? ' · 内置' : ''}</p>
+                </div>
+                {!t.builtIn && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleDelete(t); }}
+                    className="p-1 text-gray-600 hover:text-red-500 opacity-0 group-hover:opacity-100"
+                    title="删除此版本"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 flex flex-col gap-3 min-w-0">
+            <input
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              className="bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded-lg p-2.5 outline-none focus:border-cyber-primary"
+              placeholder="模板名称"
+            />
+            <textarea
+              value={draftBody}
+              onChange={(e) => setDraftBody(e.target.value)}
+              spellCheck={false}
+              className="flex-1 bg-[#020610] border border-gray-700 text-gray-300 text-xs font-mono leading-relaxed rounded-lg p-3 outline-none focus:border-cyber-primary resize-none"
+            />
+            <div className="text-[11px] text-gray-500 font-mono">
+              可用变量: {known.length > 0 ? known.map(v => `{{${v}}}`).join('  ') : '无'}
+              {unknown.length > 0 && (
+                <span className="text-red-400 ml-3">未知变量: {unknown.map(v => `{{${v}}}`).join('  ')}</span>
+              )}
+            </div>
+            <div className="flex justify-end gap-3 shrink-0">
+              <button
+                onClick={handleSaveAsNew}
+                disabled={!draftBody.trim()}
+                className="px-4 py-2 rounded-lg border border-gray-600 text-gray-300 text-sm font-bold hover:text-white disabled:opacity-40"
+              >
+                另存为新模板
+              </button>
+              <button
+                onClick={handleSaveVersion}
+                disabled={!isDirty || !draftBody.trim()}
+                className="px-4 py-2 rounded-lg bg-cyber-primary text-black text-sm font-bold hover:bg-cyan-400 disabled:opacity-40"
+              >
+                保存为 v{templates.filter(t => t.family === current.family).reduce((m, t) => Math.max(m, t.version), 0) + 1}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateManager;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { PromptKind, listTemplates, setSelectedTemplateId } from '../services/promptTemplates';
+
+interface PromptTemplateSelectProps {
+  kind: PromptKind;
+  value: string;
+  onChange: (id: string) => void;
+  className?: string;
+}
+
+// Per-run template picker. The choice is also remembered as the default for next time.
+const PromptTemplateSelect: React.FC<PromptTemplateSelectProps> = ({ kind, value, onChange, className }) => {
+  const handleChange = (id: string) => {
+    setSelectedTemplateId(kind, id);
+    onChange(id);
+  };
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => handleChange(e.target.value)}
+      title="提示词模板"
+      className={className || "w-full bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded-lg focus:ring-cyber-primary focus:border-cyber-primary block p-2.5 outline-none"}
+    >
+      {listTemplates(kind).map(t => (
+        <option key={t.id} value={t.id}>
+          {t.name} · v{t.version}{t.builtIn ? '' : ' (自定义)'}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default PromptTemplateSelect;
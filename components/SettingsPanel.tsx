@@ -0,0 +1,178 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { CheckIcon } from './Icons';
+import { AISettings, DEFAULT_MODEL, loadStoredSettings, readUrlKey, resolveSettings, saveStoredSettings } from '../services/settings';
+import { listProviders, getActiveProviderId, setActiveProviderId, getProvider } from '../services/providerRegistry';
+import { toAIError, isCancelled } from '../services/aiErrors';
+import { CacheStats, MAX_CACHE_BYTES, clearCache, getCacheStats } from '../services/resultCache';
+import { MODAL_PRIORITY, useShortcuts } from '../hooks/useShortcuts';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+  onSaved?: () => void;
+  onOpenPrompts?: () => void;
+  onOpenUsage?: () => void;
+}
+
+type TestStatus =
+  | { state: 'idle' }
+  | { state: 'testing' }
+  | { state: 'ok' }
+  | { state: 'failed'; message: string };
+
+const inputClass = "w-full bg-gray-900 border border-gray-700 text-gray-200 text-sm rounded-lg p-2.5 outline-none focus:border-cyber-primary font-mono";
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose, onSaved, onOpenPrompts, onOpenUsage }) => {
+  const [providerId, setProviderId] = useState<string>(getActiveProviderId());
+  const [form, setForm] = useState<AISettings>(loadStoredSettings());
+  const [showKey, setShowKey] = useState(false);
+  const [testStatus, setTestStatus] = useState<TestStatus>({ state: 'idle' });
+  const testAbortRef = useRef<AbortController | null>(null);
+
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+
+  useShortcuts('设置', [{ combo: 'escape', description: '关闭设置', run: onClose }], MODAL_PRIORITY);
+
+  useEffect(() => () => testAbortRef.current?.abort(), []);
+
+  useEffect(() => {
+    getCacheStats().then(setCacheStats).catch(() => setCacheStats(null));
+  }, []);
+
+  const handleClearCache = async () => {
+    try {
+      await clearCache();
+      setCacheStats(await getCacheStats());
+    } catch (e) {
+      console.warn("Unable to clear cache", e);
+    }
+  };
+
+  const updateField = (field: keyof AISettings, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    setTestStatus({ state: 'idle' });
+  };
+
+  // Unsaved fields fall back to what a real call would use
+  const effectiveSettings = (): AISettings => {
+    const resolved = resolveSettings();
+    return {
+      apiKey: form.apiKey.trim() || resolved.apiKey,
+      model: form.model.trim() || DEFAULT_MODEL,
+      endpoint: form.endpoint.trim(),
+    };
+  };
+
+  const handleTest = async () => {
+    testAbortRef.current?.abort();
+    const controller = new AbortController();
+    testAbortRef.current = controller;
+    setTestStatus({ state: 'testing' });
+    try {
+      await getProvider(providerId).testConnection(effectiveSettings(), controller.signal);
+      setTestStatus({ state: 'ok' });
+    } catch (e) {
+      if (isCancelled(e)) return;
+      setTestStatus({ state: 'failed', message: toAIError(e).message });
+    }
+  };
+
+  const handleSave = () => {
+    saveStoredSettings(form);
+    setActiveProviderId(providerId);
+    onSaved?.();
+    onClose();
+  };
+
+  // No saved key, but the page was opened with ?key=
+  const usesUrlKey = !form.apiKey.trim() && !!readUrlKey();
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-lg bg-cyber-panel border border-gray-700 rounded-2xl shadow-2xl p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-white">设置 (SETTINGS)</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white font-bold">✕</button>
+        </div>
+
+        <div className="space-y-5">
+          <div>
+            <label className="block text-xs text-gray-400 mb-2 font-bold">AI 服务 (PROVIDER)</label>
+            <select value={providerId} onChange={(e) => { setProviderId(e.target.value); setTestStatus({ state: 'idle' }); }} className={inputClass}>
+              {listProviders().map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-2 font-bold">API KEY</label>
+            <div className="flex gap-2">
+              <input
+                type={showKey ? 'text' : 'password'}
+                value={form.apiKey}
+                onChange={(e) => updateField('apiKey', e.target.value)}
+                placeholder={usesUrlKey ? '使用链接中的 ?key= 参数' : '粘贴您的 Gemini API Key'}
+                autoComplete="off"
+                className={inputClass}
+              />
+              <button onClick={() => setShowKey(prev => !prev)} className="px-3 rounded-lg border border-gray-700 text-xs text-gray-400 hover:text-white whitespace-nowrap">
+                {showKey ? '隐藏' : '显示'}
+              </button>
+            </div>
+            <p className="text-[11px] text-gray-500 mt-1">仅保存在本浏览器 (localStorage)，不会上传到其他地方。</p>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-2 font-bold">模型 ID (MODEL)</label>
+            <input value={form.model} onChange={(e) => updateField('model', e.target.value)} placeholder={DEFAULT_MODEL} className={inputClass} />
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-2 font-bold">接口地址 (ENDPOINT)</label>
+            <input value={form.endpoint} onChange={(e) => updateField('endpoint', e.target.value)} placeholder="默认官方地址，可填写代理网关" className={inputClass} />
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-2 font-bold">结果缓存 (CACHE)</label>
+            <div className="flex items-center justify-between bg-gray-900 border border-gray-700 rounded-lg p-2.5">
+              <span className="text-xs font-mono text-gray-400">
+                {cacheStats
+                  ? `${cacheStats.entries} 条 · ${(cacheStats.bytes / 1024 / 1024).toFixed(1)} / ${MAX_CACHE_BYTES / 1024 / 1024} MB`
+                  : '不可用'}
+              </span>
+              <button onClick={handleClearCache} disabled={!cacheStats || cacheStats.entries === 0} className="text-xs text-gray-400 hover:text-red-400 disabled:opacity-40">清空缓存</button>
+            </div>
+          </div>
+
+          {testStatus.state === 'ok' && (
+            <p className="text-sm text-green-400 flex items-center gap-2"><CheckIcon className="w-4 h-4" /> 连接成功</p>
+          )}
+          {testStatus.state === 'failed' && (
+            <p className="text-sm text-red-400">{testStatus.message}</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-8">
+          <div className="mr-auto flex items-center">
+            {onOpenPrompts && (
+              <button onClick={onOpenPrompts} className="px-2 py-2 text-sm text-gray-400 hover:text-cyber-primary">提示词模板 →</button>
+            )}
+            {onOpenUsage && (
+              <button onClick={onOpenUsage} className="px-2 py-2 text-sm text-gray-400 hover:text-cyber-primary">用量统计 →</button>
+            )}
+          </div>
+          <button
+            onClick={handleTest}
+            disabled={testStatus.state === 'testing'}
+            className="px-4 py-2 rounded-lg border border-cyber-primary text-cyber-primary font-bold text-sm disabled:opacity-50"
+          >
+            {testStatus.state === 'testing' ? '测试中...' : '测试连接'}
+          </button>
+          <button onClick={handleSave} className="px-6 py-2 rounded-lg bg-cyber-primary text-black font-bold text-sm hover:bg-cyan-400">保存</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { MODAL_PRIORITY, formatCombo, useShortcutGroups, useShortcuts } from '../hooks/useShortcuts';
+
+interface ShortcutCheatSheetProps {
+  onClose: () => void;
+}
+
+// Lists the shortcuts of the screen behind it, grouped by the part that registered them
+const ShortcutCheatSheet: React.FC<ShortcutCheatSheetProps> = ({ onClose }) => {
+  const groups = useShortcutGroups();
+
+  useShortcuts('快捷键列表', [
+    { combo: 'escape', description: '关闭快捷键列表', run: onClose },
+    { combo: '?', description: '关闭快捷键列表', run: onClose, hidden: true },
+  ], MODAL_PRIORITY);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-2xl max-h-[85vh] bg-cyber-panel border border-gray-700 rounded-2xl shadow-2xl p-6 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-6 shrink-0">
+          <h2 className="text-xl font-bold text-white">快捷键 (SHORTCUTS)</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white font-bold">✕</button>
+        </div>
+
+        <div className="overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-6">
+          {groups.map(group => (
+            <div key={group.title}>
+              <p className="text-xs text-cyber-primary font-mono mb-2">{group.title}</p>
+              <div className="space-y-1">
+                {group.shortcuts.map(shortcut => (
+                  <div key={shortcut.combo} className="flex items-center justify-between gap-4 text-sm">
+                    <span className="text-gray-300">{shortcut.description}</span>
+                    <kbd className="shrink-0 px-2 py-0.5 rounded border border-gray-600 bg-gray-900 text-xs font-mono text-gray-300">{formatCombo(shortcut.combo)}</kbd>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutCheatSheet;
@@ -1,8 +1,13 @@
 
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { generateStoryboardData, regenerateSingleShot } from '../services/geminiService';
 import { UploadIcon, MagicIcon, CopyIcon, TranslateIcon, FilmIcon, CheckIcon } from './Icons';
+import ErrorBanner from './ErrorBanner';
+import PromptTemplateSelect from './PromptTemplateSelect';
 import { StoryboardData, StoryboardShot } from '../types';
+import { AIError, isCancelled, toAIError } from '../services/aiErrors';
+import { getSelectedTemplate } from '../services/promptTemplates';
+import { useShortcuts } from '../hooks/useShortcuts';
 
 interface StoryboardGeneratorProps {
   // Empty for now, self-contained
@@ -32,12 +37,28 @@ const StoryboardGenerator: React.FC<StoryboardGeneratorProps> = () => {
   const [image, setImage] = useState<string | null>(null);
   const [aspectRatio, setAspectRatio] = useState<string>("16:9");
   const [shotStyle, setShotStyle] = useState<string>("mix");
+  const [storyboardTemplateId, setStoryboardTemplateId] = useState<string>(getSelectedTemplate('storyboard').id);
+  const [forceFresh, setForceFresh] = useState(false);
+  const [shotTemplateId, setShotTemplateId] = useState<string>(getSelectedTemplate('shot').id);
   
   const [isLoading, setIsLoading] = useState(false);
   const [data, setData] = useState<StoryboardData | null>(null);
   
   const [displayLang, setDisplayLang] = useState<'cn' | 'en'>('cn');
   const [copyFeedback, setCopyFeedback] = useState(false);
+  const [error, setError] = useState<{ error: AIError; retry: () => void } | null>(null);
+
+  // In-flight requests: the full generation plus one per regenerating shot
+  const generateAbortRef = useRef<AbortController | null>(null);
+  const shotAbortRefs = useRef<Map<number, AbortController>>(new Map());
+
+  useEffect(() => {
+    const shotControllers = shotAbortRefs.current;
+    return () => {
+      generateAbortRef.current?.abort();
+      shotControllers.forEach(controller => controller.abort());
+    };
+  }, []);
 
   // Initialize empty grid for visual structure before loading
   const emptyShots = Array.from({ length: 9 }, (_, i) => ({ id: i + 1 }));
@@ -58,45 +79,82 @@ const StoryboardGenerator: React.FC<StoryboardGeneratorProps> = () => {
   const handleGenerateAll = async () => {
     if (!image) return;
     setIsLoading(true);
+    setError(null);
+    const controller = new AbortController();
+    generateAbortRef.current = controller;
     try {
-      const res = await generateStoryboardData(image, SHOT_STYLES.find(s => s.id === shotStyle)?.label || 'Mix');
+      const res = await generateStoryboardData(
+        image,
+        SHOT_STYLES.find(s => s.id === shotStyle)?.label || 'Mix',
+        { signal: controller.signal, templateId: storyboardTemplateId, forceFresh }
+      );
+      if (controller.signal.aborted) return;
       setData(res);
     } catch (e) {
+      if (controller.signal.aborted || isCancelled(e)) return;
       console.error(e);
-      alert("生成失败，请重试");
+      setError({ error: toAIError(e), retry: handleGenerateAll });
     } finally {
-      setIsLoading(false);
+      if (generateAbortRef.current === controller) {
+        generateAbortRef.current = null;
+        setIsLoading(false);
+      }
     }
   };
 
+  const handleCancelGenerate = () => {
+    generateAbortRef.current?.abort();
+    generateAbortRef.current = null;
+    setIsLoading(false);
+  };
+
   const handleRegenerateShot = async (index: number, desiredTypeEn: string) => {
     if (!image || !data) return;
     
+    const shotId = data.shots[index].id;
+    // Other shots may finish or be cancelled meanwhile, so always patch the latest storyboard
+    const patchShot = (patch: Partial<StoryboardShot>) => setData(prev => prev && {
+      ...prev,
+      shots: prev.shots.map(shot => shot.id === shotId ? { ...shot, ...patch } : shot)
+    });
+
     // Set loading state for specific shot
-    const newShots = [...data.shots];
-    newShots[index] = { ...newShots[index], isRegenerating: true };
-    setData({ ...data, shots: newShots });
+    patchShot({ isRegenerating: true });
+    setError(null);
+
+    shotAbortRefs.current.get(shotId)?.abort();
+    const controller = new AbortController();
+    shotAbortRefs.current.set(shotId, controller);
 
     try {
         const updatedShot = await regenerateSingleShot(
             image, 
             data.shots[index], 
             data.mainPromptEn,
-            desiredTypeEn
+            desiredTypeEn,
+            { signal: controller.signal, templateId: shotTemplateId }
         );
+        if (controller.signal.aborted) return;
         
-        const finalShots = [...data.shots];
-        finalShots[index] = { ...updatedShot, isRegenerating: false };
-        setData({ ...data, shots: finalShots });
+        patchShot({ ...updatedShot, isRegenerating: false });
     } catch (e) {
-        console.error(e);
+        // Superseded by a newer request for the same shot; that one owns the loading state
+        if (shotAbortRefs.current.get(shotId) !== controller) return;
+        if (!controller.signal.aborted && !isCancelled(e)) {
+            console.error(e);
+            setError({ error: toAIError(e), retry: () => handleRegenerateShot(index, desiredTypeEn) });
+        }
         // Revert loading state
-        const revertShots = [...data.shots];
-        revertShots[index] = { ...revertShots[index], isRegenerating: false };
-        setData({ ...data, shots: revertShots });
+        patchShot({ isRegenerating: false });
+    } finally {
+        if (shotAbortRefs.current.get(shotId) === controller) shotAbortRefs.current.delete(shotId);
     }
   };
 
+  const handleCancelShot = (shotId: number) => {
+    shotAbortRefs.current.get(shotId)?.abort();
+  };
+
   const handleShotContentChange = (index: number, newVal: string) => {
     if (!data) return;
     const newShots = [...data.shots];
@@ -152,8 +210,18 @@ const StoryboardGenerator: React.FC<StoryboardGeneratorProps> = () => {
     setTimeout(() => setCopyFeedback(false), 2000);
   };
 
+  useShortcuts('分镜', [
+    { combo: 'mod+enter', description: '生成九宫格分镜', run: handleGenerateAll, enabled: !!image && !isLoading, allowInInputs: true },
+    { combo: 'escape', description: '取消生成', run: handleCancelGenerate, enabled: isLoading },
+    { combo: 'c', description: '复制完整提示词', run: handleCopy, enabled: !!data },
+    { combo: 'l', description: '切换中 / 英文', run: () => setDisplayLang(prev => prev === 'cn' ? 'en' : 'cn'), enabled: !!data },
+  ]);
+
   return (
-    <div className="w-full max-w-[1600px] mx-auto p-4 md:p-6 flex flex-col xl:flex-row gap-6 h-full overflow-hidden">
+    <div className="relative w-full max-w-[1600px] mx-auto p-4 md:p-6 flex flex-col xl:flex-row gap-6 h-full overflow-hidden">
+      {error && (
+        <ErrorBanner error={error.error} onDismiss={() => setError(null)} onRetry={error.retry} />
+      )}
       
       {/* LEFT COLUMN: INPUT & SETTINGS (Fixed width) */}
       <div className="w-full xl:w-[400px] flex flex-col gap-6 shrink-0 h-full overflow-y-auto">
@@ -229,9 +297,24 @@ const StoryboardGenerator: React.FC<StoryboardGeneratorProps> = () => {
                 </select>
              </div>
 
+             {/* Prompt Templates */}
+             <div>
+                <label className="block text-xs text-gray-400 mb-2 font-bold">提示词模板 (PROMPT)</label>
+                <div className="space-y-2">
+                  <PromptTemplateSelect kind="storyboard" value={storyboardTemplateId} onChange={setStoryboardTemplateId} />
+                  <PromptTemplateSelect kind="shot" value={shotTemplateId} onChange={setShotTemplateId} />
+                </div>
+             </div>
+
+             <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer select-none">
+                <input type="checkbox" checked={forceFresh} onChange={(e) => setForceFresh(e.target.checked)} className="accent-cyan-500" />
+                强制刷新 (不使用本地缓存)
+             </label>
+
              <button
                 onClick={handleGenerateAll}
                 disabled={!image || isLoading}
+                title="Ctrl+Enter"
                 className={`w-full py-3 rounded-xl font-bold text-base flex items-center justify-center gap-2 transition-all ${
                 !image || isLoading 
                 ? 'bg-gray-800 text-gray-600 cursor-not-allowed'
@@ -250,6 +333,15 @@ const StoryboardGenerator: React.FC<StoryboardGeneratorProps> = () => {
                 </>
                 )}
             </button>
+
+             {isLoading && (
+                <button
+                  onClick={handleCancelGenerate}
+                  className="w-full py-2 rounded-xl text-sm font-bold border border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 transition-colors"
+                >
+                  取消生成
+                </button>
+             )}
            </div>
         </div>
 
@@ -352,6 +444,12 @@ const StoryboardGenerator: React.FC<StoryboardGeneratorProps> = () => {
                                     <div className="absolute inset-0 flex flex-col items-center justify-center text-cyber-dim gap-2 bg-[#0f172a]/80 z-10 backdrop-blur-sm">
                                         <div className="w-6 h-6 border-2 border-cyber-secondary/30 border-t-cyber-secondary rounded-full animate-spin"></div>
                                         <span className="text-xs">重绘中...</span>
+                                        <button
+                                            onClick={() => handleCancelShot(shotData.id)}
+                                            className="text-xs px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:text-white hover:border-gray-500"
+                                        >
+                                            取消
+                                        </button>
                                     </div>
                                 ) : (
                                     <textarea 
@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { DownloadIcon, TrashIcon } from './Icons';
+import { UsageEntry, clearUsage, listUsage, summarizeByDay, toCsv } from '../services/usageLedger';
+import { MODAL_PRIORITY, useShortcuts } from '../hooks/useShortcuts';
+
+interface UsageViewProps {
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(0)} KB`;
+
+const formatCost = (usd: number) => `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+
+const UsageView: React.FC<UsageViewProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<UsageEntry[] | null>(null);
+  const [unavailable, setUnavailable] = useState(false);
+
+  useShortcuts('用量统计', [{ combo: 'escape', description: '关闭用量统计', run: onClose }], MODAL_PRIORITY);
+
+  useEffect(() => {
+    listUsage()
+      .then(setEntries)
+      .catch(e => {
+        console.warn("Unable to read usage ledger", e);
+        setUnavailable(true);
+      });
+  }, []);
+
+  const days = entries ? summarizeByDay(entries) : [];
+  const totals = days.reduce(
+    (acc, d) => ({ calls: acc.calls + d.calls, cost: acc.cost + d.estimatedCostUsd, tokens: acc.tokens + d.promptTokens + d.outputTokens }),
+    { calls: 0, cost: 0, tokens: 0 }
+  );
+
+  const handleExport = () => {
+    if (!entries) return;
+    const blob = new Blob(['﻿' + toCsv(entries)], { type: 'text/csv;charset=utf-8' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `magic-zheng-usage-${Date.now()}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleClear = async () => {
+    if (!confirm("确定清空全部用量记录？此操作不可恢复。")) return;
+    await clearUsage();
+    setEntries([]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-4xl max-h-[85vh] bg-cyber-panel border border-gray-700 rounded-2xl shadow-2xl p-6 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-6 shrink-0">
+          <h2 className="text-xl font-bold text-white">用量统计 (USAGE)</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white font-bold">✕</button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 mb-6 shrink-0">
+          <div className="bg-gray-900 border border-gray-700 rounded-lg p-4">
+            <p className="text-xs text-gray-500 mb-1">调用次数</p>
+            <p className="text-2xl font-mono text-white">{totals.calls}</p>
+          </div>
+          <div className="bg-gray-900 border border-gray-700 rounded-lg p-4">
+            <p className="text-xs text-gray-500 mb-1">Token 总数</p>
+            <p className="text-2xl font-mono text-white">{totals.tokens.toLocaleString()}</p>
+          </div>
+          <div className="bg-gray-900 border border-gray-700 rounded-lg p-4">
+            <p className="text-xs text-gray-500 mb-1">预估费用 (USD)</p>
+            <p className="text-2xl font-mono text-cyber-primary">{formatCost(totals.cost)}</p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto min-h-0 border border-gray-800 rounded-lg">
+          {unavailable ? (
+            <p className="p-6 text-center text-gray-500 text-sm">当前浏览器不支持本地用量记录 (IndexedDB 不可用)。</p>
+          ) : !entries ? (
+            <p className="p-6 text-center text-gray-500 text-sm">加载中...</p>
+          ) : days.length === 0 ? (
+            <p className="p-6 text-center text-gray-500 text-sm">暂无调用记录</p>
+          ) : (
+            <table className="w-full text-sm font-mono">
+              <thead className="sticky top-0 bg-gray-900 text-gray-400 text-xs">
+                <tr>
+                  <th className="text-left p-3">日期</th>
+                  <th className="text-right p-3">调用</th>
+                  <th className="text-right p-3">失败</th>
+                  <th className="text-right p-3">上传</th>
+                  <th className="text-right p-3">输入 Token</th>
+                  <th className="text-right p-3">输出 Token</th>
+                  <th className="text-right p-3">平均耗时</th>
+                  <th className="text-right p-3">预估费用</th>
+                </tr>
+              </thead>
+              <tbody>
+                {days.map(d => (
+                  <tr key={d.day} className="border-t border-gray-800 text-gray-300">
+                    <td className="p-3">{d.day}</td>
+                    <td className="p-3 text-right">{d.calls}</td>
+                    <td className={`p-3 text-right ${d.failures > 0 ? 'text-red-400' : ''}`}>{d.failures}</td>
+                    <td className="p-3 text-right">{formatBytes(d.bytesSent)}</td>
+                    <td className="p-3 text-right">{d.promptTokens.toLocaleString()}</td>
+                    <td className="p-3 text-right">{d.outputTokens.toLocaleString()}</td>
+                    <td className="p-3 text-right">{(d.avgLatencyMs / 1000).toFixed(1)}s</td>
+                    <td className="p-3 text-right text-cyber-primary">{formatCost(d.estimatedCostUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 mt-6 shrink-0">
+          <p className="mr-auto text-[11px] text-gray-500">费用按公开价目估算，仅供参考；记录仅保存在本浏览器。</p>
+          <button
+            onClick={handleClear}
+            disabled={!entries || entries.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-700 text-gray-400 text-sm hover:text-red-400 disabled:opacity-40"
+          >
+            <TrashIcon className="w-4 h-4" /> 清空
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!entries || entries.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-cyber-primary text-black text-sm font-bold hover:bg-cyan-400 disabled:opacity-40"
+          >
+            <DownloadIcon className="w-4 h-4" /> 导出 CSV
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageView;
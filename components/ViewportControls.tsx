@@ -0,0 +1,89 @@
+import React, { useRef } from 'react';
+import { Viewport } from '../hooks/useViewport';
+import { useShortcuts } from '../hooks/useShortcuts';
+
+interface ViewportControlsProps {
+  viewport: Viewport;
+  // Thumbnail for the minimap
+  imageSrc: string;
+  // False while the host view is inactive (e.g. processing); open modals block keys on their own
+  shortcutsEnabled?: boolean;
+}
+
+const ZOOM_STEP = 1.25;
+// Longest side of the minimap, in screen pixels
+const MINIMAP_SIZE = 160;
+
+/**
+ * Zoom buttons with a percentage readout, plus a minimap of the whole image that
+ * outlines the visible part and can be dragged to move it. Rendered inside the
+ * (relatively positioned) container the viewport measures.
+ */
+const ViewportControls: React.FC<ViewportControlsProps> = ({ viewport, imageSrc, shortcutsEnabled = true }) => {
+  const { scale, offset, containerSize, content } = viewport;
+  const minimapRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef(false);
+
+  useShortcuts('视图', [
+    { combo: '=', description: '放大', run: () => viewport.zoomBy(ZOOM_STEP), enabled: shortcutsEnabled },
+    { combo: 'plus', description: '放大', run: () => viewport.zoomBy(ZOOM_STEP), enabled: shortcutsEnabled, hidden: true },
+    { combo: '-', description: '缩小', run: () => viewport.zoomBy(1 / ZOOM_STEP), enabled: shortcutsEnabled },
+    { combo: '0', description: '适应窗口', run: viewport.fit, enabled: shortcutsEnabled },
+    { combo: '1', description: '100% 实际像素', run: () => viewport.zoomTo(1), enabled: shortcutsEnabled },
+  ]);
+
+  if (!content) return null;
+
+  // Visible part of the image, in image pixels, clipped to the image
+  const left = Math.max(0, -offset.x / scale);
+  const top = Math.max(0, -offset.y / scale);
+  const right = Math.min(content.width, (containerSize.width - offset.x) / scale);
+  const bottom = Math.min(content.height, (containerSize.height - offset.y) / scale);
+  const showMinimap = left > 0 || top > 0 || right < content.width || bottom < content.height;
+  const k = MINIMAP_SIZE / Math.max(content.width, content.height);
+
+  const moveTo = (e: React.PointerEvent) => {
+    const rect = minimapRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    viewport.centerOn({ x: (e.clientX - rect.left) / k, y: (e.clientY - rect.top) / k });
+  };
+
+  return (
+    <>
+      <div
+        className="absolute bottom-4 right-4 z-10 flex items-center bg-black/60 rounded-lg border border-gray-700 text-xs font-mono text-gray-300"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <button onClick={() => viewport.zoomBy(1 / ZOOM_STEP)} title="缩小 (-)" className="px-2.5 py-1.5 hover:text-white">−</button>
+        <button onClick={() => viewport.zoomTo(1)} title="100% 实际像素 (1)" className="w-14 py-1.5 text-center hover:text-white">{Math.round(scale * 100)}%</button>
+        <button onClick={() => viewport.zoomBy(ZOOM_STEP)} title="放大 (=)" className="px-2.5 py-1.5 hover:text-white">+</button>
+        <button onClick={viewport.fit} title="适应窗口 (0)" className="px-2.5 py-1.5 border-l border-gray-700 hover:text-cyber-primary">适应</button>
+      </div>
+
+      {showMinimap && right > left && bottom > top && (
+        <div
+          ref={minimapRef}
+          className="absolute top-4 right-4 z-10 border border-gray-700 bg-black/60 shadow-xl cursor-move touch-none"
+          style={{ width: content.width * k, height: content.height * k }}
+          onPointerDown={(e) => {
+            e.stopPropagation();
+            e.currentTarget.setPointerCapture(e.pointerId);
+            draggingRef.current = true;
+            moveTo(e);
+          }}
+          onPointerMove={(e) => draggingRef.current && moveTo(e)}
+          onPointerUp={() => { draggingRef.current = false; }}
+          onPointerCancel={() => { draggingRef.current = false; }}
+        >
+          <img src={imageSrc} alt="" className="w-full h-full opacity-70 pointer-events-none" draggable={false} />
+          <div
+            className="absolute border-2 border-cyber-primary bg-cyber-primary/10 pointer-events-none"
+            style={{ left: left * k, top: top * k, width: (right - left) * k, height: (bottom - top) * k }}
+          />
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ViewportControls;
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { ToolType } from '../types';
+import { Shortcut, useShortcuts } from './useShortcuts';
+
+// Single-key tool shortcuts, also shown in the toolbar tooltips
+export const TOOL_KEYS: Record<ToolType, string> = {
+  [ToolType.BRUSH]: 'b',
+  [ToolType.ERASER]: 'e',
+  [ToolType.RECT]: 'r',
+  [ToolType.ELLIPSE]: 'o',
+  [ToolType.LASSO]: 'l',
+  [ToolType.POLYGON]: 'p',
+  [ToolType.WAND]: 'w',
+  [ToolType.HAND]: 'h',
+};
+
+const TOOL_NAMES: Record<ToolType, string> = {
+  [ToolType.BRUSH]: '画笔',
+  [ToolType.ERASER]: '橡皮擦',
+  [ToolType.RECT]: '矩形选区',
+  [ToolType.ELLIPSE]: '椭圆选区',
+  [ToolType.LASSO]: '套索',
+  [ToolType.POLYGON]: '多边形',
+  [ToolType.WAND]: '魔棒',
+  [ToolType.HAND]: '平移',
+};
+
+// Matches the brush size slider
+const MIN_BRUSH_SIZE = 5;
+const MAX_BRUSH_SIZE = 100;
+const BRUSH_SIZE_STEP = 5;
+
+interface MaskEditorShortcutOptions {
+  enabled: boolean;
+  tool: ToolType;
+  setTool: (tool: ToolType) => void;
+  setBrushSize: (update: (size: number) => number) => void;
+  undo: () => void;
+  redo: () => void;
+}
+
+/**
+ * Tool, brush size, pan and undo shortcuts shared by every mask editor, plus any
+ * `extra` ones for the host screen. Returns the tool to hand to the canvas, which
+ * is HAND while Space is held.
+ */
+export const useMaskEditorShortcuts = (
+  title: string,
+  { enabled, tool, setTool, setBrushSize, undo, redo }: MaskEditorShortcutOptions,
+  extra: Shortcut[] = []
+): ToolType => {
+  const [panning, setPanning] = useState(false);
+
+  const resize = (delta: number) =>
+    setBrushSize(size => Math.min(MAX_BRUSH_SIZE, Math.max(MIN_BRUSH_SIZE, size + delta)));
+
+  useShortcuts(title, [
+    ...(Object.keys(TOOL_KEYS) as ToolType[]).map(t => ({
+      combo: TOOL_KEYS[t],
+      description: TOOL_NAMES[t],
+      run: () => setTool(t),
+      enabled
+    })),
+    { combo: '[', description: '缩小画笔', run: () => resize(-BRUSH_SIZE_STEP), enabled },
+    { combo: ']', description: '放大画笔', run: () => resize(BRUSH_SIZE_STEP), enabled },
+    { combo: 'space', description: '按住临时平移', run: () => setPanning(true), release: () => setPanning(false), enabled },
+    { combo: 'mod+z', description: '撤销', run: undo, enabled },
+    { combo: 'mod+shift+z', description: '重做', run: redo, enabled },
+    { combo: 'mod+y', description: '重做', run: redo, enabled, hidden: true },
+    ...extra
+  ]);
+
+  return panning && enabled ? ToolType.HAND : tool;
+};
@@ -0,0 +1,105 @@
+import { useState, useCallback } from 'react';
+import { Stroke } from '../types';
+
+/** A reversible edit of the stroke list */
+export interface MaskCommand {
+  label: string;
+  apply: (strokes: Stroke[]) => Stroke[];
+  revert: (strokes: Stroke[]) => Stroke[];
+}
+
+/** Undo / redo stacks, stored alongside strokes in navigation snapshots */
+export interface MaskStacks {
+  undo: MaskCommand[];
+  redo: MaskCommand[];
+}
+
+// Keeps memory bounded on long sessions; the oldest edits fall off first
+const MAX_UNDO_DEPTH = 200;
+
+export const EMPTY_MASK_STACKS: MaskStacks = { undo: [], redo: [] };
+
+// Appending strokes (brush, shapes, wand, imports, presets, detection)
+export const addStrokesCommand = (added: Stroke[], label: string): MaskCommand => ({
+  label,
+  apply: strokes => [...strokes, ...added],
+  revert: strokes => strokes.slice(0, strokes.length - added.length),
+});
+
+// Wiping the mask; the removed strokes come back on undo
+export const clearStrokesCommand = (removed: Stroke[]): MaskCommand => ({
+  label: '清空蒙版',
+  apply: () => [],
+  revert: () => removed,
+});
+
+/**
+ * Mask strokes with command-based undo/redo. Every change goes through
+ * `execute`; `load` swaps in a saved state (e.g. when navigating history steps).
+ */
+export const useMaskHistory = () => {
+  const [state, setState] = useState<{ strokes: Stroke[]; stacks: MaskStacks }>({
+    strokes: [],
+    stacks: EMPTY_MASK_STACKS,
+  });
+
+  const execute = useCallback((command: MaskCommand) => {
+    setState(prev => ({
+      strokes: command.apply(prev.strokes),
+      stacks: { undo: [...prev.stacks.undo, command].slice(-MAX_UNDO_DEPTH), redo: [] },
+    }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(prev => {
+      const command = prev.stacks.undo[prev.stacks.undo.length - 1];
+      if (!command) return prev;
+      return {
+        strokes: command.revert(prev.strokes),
+        stacks: { undo: prev.stacks.undo.slice(0, -1), redo: [...prev.stacks.redo, command] },
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(prev => {
+      const command = prev.stacks.redo[prev.stacks.redo.length - 1];
+      if (!command) return prev;
+      return {
+        strokes: command.apply(prev.strokes),
+        stacks: { undo: [...prev.stacks.undo, command], redo: prev.stacks.redo.slice(0, -1) },
+      };
+    });
+  }, []);
+
+  const addStrokes = useCallback((added: Stroke[], label: string) => {
+    if (added.length > 0) execute(addStrokesCommand(added, label));
+  }, [execute]);
+
+  const clear = useCallback(() => {
+    setState(prev => prev.strokes.length === 0 ? prev : {
+      strokes: [],
+      stacks: { undo: [...prev.stacks.undo, clearStrokesCommand(prev.strokes)].slice(-MAX_UNDO_DEPTH), redo: [] },
+    });
+  }, []);
+
+  const load = useCallback((strokes: Stroke[], stacks: MaskStacks = EMPTY_MASK_STACKS) => {
+    setState({ strokes, stacks });
+  }, []);
+
+  const { strokes, stacks } = state;
+  return {
+    strokes,
+    stacks,
+    canUndo: stacks.undo.length > 0,
+    canRedo: stacks.redo.length > 0,
+    undoLabel: stacks.undo[stacks.undo.length - 1]?.label,
+    redoLabel: stacks.redo[stacks.redo.length - 1]?.label,
+    execute,
+    undo,
+    redo,
+    addStrokes,
+    clear,
+    load,
+  };
+};
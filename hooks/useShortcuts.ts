@@ -0,0 +1,172 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+
+export interface Shortcut {
+  // Key combination such as 'b', '[', 'space', 'enter', 'mod+s' or 'mod+shift+z';
+  // 'mod' is Ctrl, or Cmd on macOS, and the '+' key itself is written 'plus'
+  combo: string;
+  description: string;
+  run: (e: KeyboardEvent) => void;
+  // Called when the key is let go; such shortcuts act while held and ignore auto-repeat
+  release?: () => void;
+  // Defaults to true; disabled shortcuts neither fire nor show in the cheat sheet
+  enabled?: boolean;
+  // Fire even while typing in a text field (text fields otherwise keep their keys)
+  allowInInputs?: boolean;
+  // Aliases that work but are not listed
+  hidden?: boolean;
+}
+
+interface ShortcutScope {
+  id: number;
+  title: string;
+  // Higher priority scopes get first pick of a key, e.g. an open polygon claiming Enter
+  priority: number;
+  shortcuts: Shortcut[];
+}
+
+export interface ShortcutGroup {
+  title: string;
+  shortcuts: Shortcut[];
+}
+
+const scopes = new Map<number, ShortcutScope>();
+const listeners = new Set<() => void>();
+// Shortcuts currently held down, by key, waiting for their release
+const held = new Map<string, { scopeId: number; shortcut: Shortcut }>();
+let nextScopeId = 0;
+let listening = false;
+let groups: ShortcutGroup[] = [];
+let groupsSignature = '';
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// Scopes at or above this priority belong to an open modal: no lower scope receives keys
+// while one is mounted. Lower scopes still appear in the cheat sheet, which describes
+// the screen behind the modal.
+export const MODAL_PRIORITY = 100;
+
+const KEY_ALIASES: Record<string, string> = { space: ' ', esc: 'escape', plus: '+' };
+
+// Text fields keep their native keys
+export const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const matches = (combo: string, e: KeyboardEvent): boolean => {
+  const parts = combo.toLowerCase().split('+');
+  const key = KEY_ALIASES[parts[parts.length - 1]] ?? parts[parts.length - 1];
+  const modifiers = new Set(parts.slice(0, -1));
+  if (e.key.toLowerCase() !== key) return false;
+  if ((e.ctrlKey || e.metaKey) !== modifiers.has('mod') || e.altKey !== modifiers.has('alt')) return false;
+  // Symbols like '?' or '[' already encode Shift in e.key, whatever the layout
+  const isLetterOrNamed = /^[a-z0-9]$/.test(key) || key.length > 1;
+  return !isLetterOrNamed || e.shiftKey === modifiers.has('shift');
+};
+
+const activeScopes = () =>
+  Array.from(scopes.values() as Iterable<ShortcutScope>).sort((a, b) => b.priority - a.priority || b.id - a.id);
+
+const handleKeyDown = (e: KeyboardEvent) => {
+  const editable = isEditableTarget(e.target);
+  for (const scope of activeScopes()) {
+    const shortcut = scope.shortcuts.find(s => s.enabled !== false && (!editable || s.allowInInputs) && matches(s.combo, e));
+    if (!shortcut) {
+      if (scope.priority >= MODAL_PRIORITY) return;
+      continue;
+    }
+    e.preventDefault();
+    if (shortcut.release) {
+      if (e.repeat || held.has(e.key.toLowerCase())) return;
+      held.set(e.key.toLowerCase(), { scopeId: scope.id, shortcut });
+    }
+    shortcut.run(e);
+    return;
+  }
+};
+
+const releaseHeld = (predicate: (key: string, scopeId: number) => boolean) => {
+  held.forEach(({ scopeId, shortcut }, key) => {
+    if (!predicate(key, scopeId)) return;
+    held.delete(key);
+    shortcut.release?.();
+  });
+};
+
+const handleKeyUp = (e: KeyboardEvent) => releaseHeld(key => key === e.key.toLowerCase());
+// Keys released while the window is in the background never report a keyup
+const handleBlur = () => releaseHeld(() => true);
+
+const ensureListening = () => {
+  if (listening) return;
+  listening = true;
+  window.addEventListener('keydown', handleKeyDown);
+  window.addEventListener('keyup', handleKeyUp);
+  window.addEventListener('blur', handleBlur);
+};
+
+// Recomputes the cheat sheet listing, notifying subscribers only when it visibly changed
+const publish = () => {
+  const next = activeScopes()
+    .map(scope => ({ title: scope.title, shortcuts: scope.shortcuts.filter(s => s.enabled !== false && !s.hidden) }))
+    .filter(group => group.shortcuts.length > 0)
+    .reverse();
+  const signature = JSON.stringify(next.map(g => [g.title, g.shortcuts.map(s => [s.combo, s.description])]));
+  if (signature === groupsSignature) return;
+  groups = next;
+  groupsSignature = signature;
+  listeners.forEach(listener => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+/**
+ * Registers a titled group of keyboard shortcuts while the calling component is mounted.
+ * The list is re-read on every render, so handlers always see current state; toggle
+ * individual entries with `enabled` rather than registering conditionally.
+ */
+export const useShortcuts = (title: string, shortcuts: Shortcut[], priority = 0) => {
+  const idRef = useRef(0);
+
+  useEffect(() => {
+    const id = ++nextScopeId;
+    idRef.current = id;
+    scopes.set(id, { id, title, priority, shortcuts: [] });
+    ensureListening();
+    return () => {
+      scopes.delete(id);
+      // A key held by a disappearing scope must not stay stuck down
+      releaseHeld((_, scopeId) => scopeId === id);
+      publish();
+    };
+  }, [title, priority]);
+
+  useEffect(() => {
+    const scope = scopes.get(idRef.current);
+    if (!scope) return;
+    scope.shortcuts = shortcuts;
+    publish();
+  });
+};
+
+// Active shortcut groups, highest-level first, for the cheat sheet
+export const useShortcutGroups = (): ShortcutGroup[] => useSyncExternalStore(subscribe, () => groups);
+
+// Human-readable form of a combo, e.g. 'mod+shift+z' -> 'Ctrl+Shift+Z'
+export const formatCombo = (combo: string): string =>
+  combo.split('+').map(part => {
+    switch (part) {
+      case 'mod': return isMac ? '⌘' : 'Ctrl';
+      case 'shift': return 'Shift';
+      case 'alt': return isMac ? '⌥' : 'Alt';
+      case 'space': return 'Space';
+      case 'enter': return 'Enter';
+      case 'escape': return 'Esc';
+      case 'backspace': return 'Backspace';
+      case 'arrowleft': return '←';
+      case 'arrowright': return '→';
+      case 'plus': return '+';
+      default: return part.toUpperCase();
+    }
+  }).join('+');
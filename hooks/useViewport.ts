@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ImageDimensions, Point } from '../types';
+
+// Zoom limits shared by every zoomable view
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 10;
+// Fitted content leaves a margin around it
+const FIT_MARGIN = 0.9;
+
+interface ViewState {
+  scale: number;
+  // Screen position of the content's top-left corner, relative to the container
+  offset: Point;
+}
+
+const clampScale = (scale: number) => Math.max(MIN_ZOOM, Math.min(scale, MAX_ZOOM));
+
+const fitView = (content: ImageDimensions, container: ImageDimensions): ViewState => {
+  const scale = clampScale(Math.min(container.width / content.width, container.height / content.height) * FIT_MARGIN);
+  return {
+    scale,
+    offset: {
+      x: (container.width - content.width * scale) / 2,
+      y: (container.height - content.height * scale) / 2
+    }
+  };
+};
+
+/**
+ * Pan / zoom state for content of size `content` shown in `containerRef`.
+ * The view fits itself whenever new content arrives (a new `resetKey` or size).
+ */
+export const useViewport = (
+  containerRef: { current: HTMLElement | null },
+  content: ImageDimensions | null,
+  resetKey?: string
+) => {
+  const [view, setView] = useState<ViewState>({ scale: 1, offset: { x: 0, y: 0 } });
+  const [containerSize, setContainerSize] = useState<ImageDimensions>({ width: 0, height: 0 });
+  const fittedKeyRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const measure = () => setContainerSize({ width: container.clientWidth, height: container.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [containerRef]);
+
+  const contentWidth = content?.width ?? 0;
+  const contentHeight = content?.height ?? 0;
+
+  const fit = useCallback(() => {
+    if (!contentWidth || !containerSize.width) return;
+    setView(fitView({ width: contentWidth, height: contentHeight }, containerSize));
+  }, [contentWidth, contentHeight, containerSize]);
+
+  useEffect(() => {
+    const key = `${resetKey ?? ''}:${contentWidth}x${contentHeight}`;
+    if (!contentWidth || !containerSize.width || fittedKeyRef.current === key) return;
+    fittedKeyRef.current = key;
+    fit();
+  }, [resetKey, contentWidth, contentHeight, containerSize, fit]);
+
+  // Scales by `factor` keeping the content point under (screenX, screenY) fixed,
+  // then shifts by (panX, panY) screen pixels
+  const zoomAround = useCallback((screenX: number, screenY: number, factor: number, panX = 0, panY = 0) => {
+    setView(prev => {
+      const scale = clampScale(prev.scale * factor);
+      return {
+        scale,
+        offset: {
+          x: screenX - (screenX - prev.offset.x) * (scale / prev.scale) + panX,
+          y: screenY - (screenY - prev.offset.y) * (scale / prev.scale) + panY
+        }
+      };
+    });
+  }, []);
+
+  // Zooms around the centre of the container
+  const zoomBy = useCallback((factor: number) => {
+    zoomAround(containerSize.width / 2, containerSize.height / 2, factor);
+  }, [zoomAround, containerSize]);
+
+  const zoomTo = useCallback((scale: number) => {
+    zoomBy(scale / view.scale);
+  }, [zoomBy, view.scale]);
+
+  const panBy = useCallback((dx: number, dy: number) => {
+    setView(prev => ({ ...prev, offset: { x: prev.offset.x + dx, y: prev.offset.y + dy } }));
+  }, []);
+
+  // Scrolls so the content point `p` sits in the middle of the container
+  const centerOn = useCallback((p: Point) => {
+    setView(prev => ({
+      ...prev,
+      offset: { x: containerSize.width / 2 - p.x * prev.scale, y: containerSize.height / 2 - p.y * prev.scale }
+    }));
+  }, [containerSize]);
+
+  return {
+    scale: view.scale,
+    offset: view.offset,
+    containerSize,
+    content,
+    fit,
+    zoomAround,
+    zoomBy,
+    zoomTo,
+    panBy,
+    centerOn
+  };
+};
+
+export type Viewport = ReturnType<typeof useViewport>;
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { AIError, AIErrorKind, isCancelled, isTransient, toAIError } from './aiErrors';
+
+const httpError = (status: number, message = 'Request failed') => Object.assign(new Error(message), { status });
+
+describe('toAIError', () => {
+  it('passes AIErrors through unchanged', () => {
+    const error = new AIError(AIErrorKind.SAFETY);
+    expect(toAIError(error)).toBe(error);
+  });
+
+  it.each([
+    [401, AIErrorKind.INVALID_KEY],
+    [403, AIErrorKind.INVALID_KEY],
+    [404, AIErrorKind.NOT_FOUND],
+    [429, AIErrorKind.RATE_LIMIT],
+    [503, AIErrorKind.NETWORK],
+  ])('classifies HTTP %i as %s', (status, kind) => {
+    expect(toAIError(httpError(status)).kind).toBe(kind);
+  });
+
+  it.each([
+    ['API key not valid. Please pass a valid API key.', AIErrorKind.INVALID_KEY],
+    ['[400] API_KEY_INVALID', AIErrorKind.INVALID_KEY],
+    ['models/gemini-x is not found for API version v1beta (NOT_FOUND)', AIErrorKind.NOT_FOUND],
+    ['RESOURCE_EXHAUSTED: You exceeded your current quota', AIErrorKind.RATE_LIMIT],
+    ['Failed to fetch', AIErrorKind.NETWORK],
+    ['read ECONNRESET', AIErrorKind.NETWORK],
+    ['Candidate was blocked due to SAFETY', AIErrorKind.SAFETY],
+  ])('classifies "%s" as %s', (message, kind) => {
+    expect(toAIError(new Error(message)).kind).toBe(kind);
+  });
+
+  it('does not read key, quota or network problems into ordinary prose', () => {
+    for (const message of [
+      'Requested entity was not found',
+      'The quota field is required',
+      'social network image could not be parsed',
+      'permission_denied_reason is unset',
+    ]) {
+      expect(toAIError(new Error(message)).kind).toBe(AIErrorKind.UNKNOWN);
+    }
+  });
+
+  it('treats aborts as cancellation', () => {
+    const abort = Object.assign(new Error('The user aborted a request.'), { name: 'AbortError' });
+    expect(isCancelled(toAIError(abort))).toBe(true);
+  });
+
+  it('classifies JSON syntax errors as unparsable and keeps the raw message as detail', () => {
+    const error = toAIError(new SyntaxError('Unexpected token < in JSON'));
+    expect(error.kind).toBe(AIErrorKind.UNPARSABLE);
+    expect(error.detail).toBe('Unexpected token < in JSON');
+  });
+});
+
+describe('AIError', () => {
+  it('uses per-kind copy and retryability', () => {
+    expect(new AIError(AIErrorKind.NOT_FOUND).retryable).toBe(false);
+    expect(new AIError(AIErrorKind.NETWORK).retryable).toBe(true);
+    expect(new AIError(AIErrorKind.UNKNOWN, { message: '自定义' }).message).toBe('自定义');
+  });
+
+  it('only treats network, rate limit and empty output as transient', () => {
+    const transient = Object.values(AIErrorKind).filter(kind => isTransient(new AIError(kind)));
+    expect(transient.sort()).toEqual([AIErrorKind.EMPTY_IMAGE, AIErrorKind.NETWORK, AIErrorKind.RATE_LIMIT].sort());
+  });
+});
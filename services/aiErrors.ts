@@ -0,0 +1,106 @@
+export enum AIErrorKind {
+  MISSING_KEY = 'MISSING_KEY',
+  INVALID_KEY = 'INVALID_KEY',
+  NOT_FOUND = 'NOT_FOUND',
+  SAFETY = 'SAFETY',
+  RATE_LIMIT = 'RATE_LIMIT',
+  NETWORK = 'NETWORK',
+  UNPARSABLE = 'UNPARSABLE',
+  EMPTY_IMAGE = 'EMPTY_IMAGE',
+  CANCELLED = 'CANCELLED',
+  UNKNOWN = 'UNKNOWN',
+}
+
+// Default user-facing copy and whether trying again can help, per kind
+const KIND_INFO: Record<AIErrorKind, { message: string; retryable: boolean }> = {
+  [AIErrorKind.MISSING_KEY]: { message: "API Key 未配置。请点击右上角设置填写您的 API Key。", retryable: false },
+  [AIErrorKind.INVALID_KEY]: { message: "API Key 无效或无权访问该模型。请在设置中检查 API Key 与模型 ID。", retryable: false },
+  [AIErrorKind.NOT_FOUND]: { message: "找不到请求的模型或接口 (404)。请在设置中检查模型 ID 与接口地址。", retryable: false },
+  [AIErrorKind.SAFETY]: { message: "AI处理失败: 模型拒绝了该请求(可能涉及敏感内容或无法识别)。", retryable: false },
+  [AIErrorKind.RATE_LIMIT]: { message: "请求过于频繁或额度已用尽，请稍后再试。", retryable: true },
+  [AIErrorKind.NETWORK]: { message: "网络连接失败，请检查网络后重试。", retryable: true },
+  [AIErrorKind.UNPARSABLE]: { message: "AI 返回的内容无法解析。", retryable: true },
+  [AIErrorKind.EMPTY_IMAGE]: { message: "AI生成失败，未返回图片，请稍后重试。", retryable: true },
+  [AIErrorKind.CANCELLED]: { message: "已取消。", retryable: false },
+  [AIErrorKind.UNKNOWN]: { message: "处理失败，请重试。", retryable: true },
+};
+
+/**
+ * Error raised by every AI call. `message` is safe to show to users;
+ * `retryable` tells the UI whether offering "retry" makes sense.
+ */
+export class AIError extends Error {
+  kind: AIErrorKind;
+  retryable: boolean;
+  detail?: string;
+
+  constructor(kind: AIErrorKind, options: { message?: string; detail?: string; cause?: unknown } = {}) {
+    super(options.message || KIND_INFO[kind].message, { cause: options.cause });
+    this.name = 'AIError';
+    this.kind = kind;
+    this.retryable = KIND_INFO[kind].retryable;
+    this.detail = options.detail;
+  }
+
+  get hint(): string {
+    return this.retryable ? "可以稍后重试。" : "重试无法解决，请先处理上述问题。";
+  }
+}
+
+export const isAIError = (error: unknown): error is AIError => error instanceof AIError;
+
+// User-initiated aborts are not failures and should not show a banner
+export const isCancelled = (error: unknown): boolean =>
+  isAIError(error) && error.kind === AIErrorKind.CANCELLED;
+
+// Kinds that are worth retrying automatically before bothering the user
+export const isTransient = (error: AIError): boolean =>
+  error.kind === AIErrorKind.NETWORK ||
+  error.kind === AIErrorKind.RATE_LIMIT ||
+  error.kind === AIErrorKind.EMPTY_IMAGE;
+
+const classify = (error: unknown): AIErrorKind => {
+  // SDK and fetch errors carry an HTTP status and a message; anything else may be thrown too
+  const fields: { status?: unknown; message?: unknown; name?: unknown } =
+    typeof error === 'object' && error !== null ? error : {};
+  const status = typeof fields.status === 'number' ? fields.status : undefined;
+  const message = String(fields.message || '');
+
+  if (fields.name === 'AbortError' || /aborted/i.test(message)) {
+    return AIErrorKind.CANCELLED;
+  }
+
+  // Upper-case tokens are API status codes; match them exactly so ordinary prose doesn't trigger
+  if (status === 401 || status === 403 || /\b(API_KEY_INVALID|PERMISSION_DENIED)\b/.test(message) || /API key not valid/i.test(message)) {
+    return AIErrorKind.INVALID_KEY;
+  }
+  if (status === 404 || /\bNOT_FOUND\b/.test(message)) {
+    return AIErrorKind.NOT_FOUND;
+  }
+  if (status === 429 || /\bRESOURCE_EXHAUSTED\b/.test(message) || /exceeded your current quota|quota exceeded|rate limit exceeded/i.test(message)) {
+    return AIErrorKind.RATE_LIMIT;
+  }
+  if (
+    (status !== undefined && status >= 500) ||
+    /\bUNAVAILABLE\b/.test(message) ||
+    /Failed to fetch|NetworkError|\bnetwork error\b|\bECONN(RESET|REFUSED)\b|\bETIMEDOUT\b/i.test(message)
+  ) {
+    return AIErrorKind.NETWORK;
+  }
+  if (/\b(SAFETY|PROHIBITED_CONTENT|BLOCKLIST)\b/.test(message)) {
+    return AIErrorKind.SAFETY;
+  }
+  if (error instanceof SyntaxError) {
+    return AIErrorKind.UNPARSABLE;
+  }
+  return AIErrorKind.UNKNOWN;
+};
+
+/**
+ * Normalizes anything thrown by an SDK, fetch or our own code into an AIError.
+ */
+export const toAIError = (error: unknown): AIError => {
+  if (isAIError(error)) return error;
+  const detail = error instanceof Error ? error.message : String(error);
+  return new AIError(classify(error), { detail, cause: error });
+};
@@ -0,0 +1,59 @@
+import { StoryboardShot } from "../types";
+import { AISettings } from "./settings";
+
+// Base64 payload without the data URL prefix, as expected by the model APIs
+export interface InlineImage {
+  mimeType: string;
+  data: string;
+}
+
+export interface TokenUsage {
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+// Every generation call reports what it consumed alongside the value
+export interface ProviderResult<T> {
+  value: T;
+  usage?: TokenUsage;
+}
+
+interface ProviderRequest {
+  // Aborting must reject the pending call promptly
+  signal?: AbortSignal;
+}
+
+export interface InpaintRequest extends ProviderRequest {
+  image: InlineImage;
+  mask: InlineImage;
+  prompt: string;
+}
+
+export interface StoryboardRequest extends ProviderRequest {
+  image: InlineImage;
+  prompt: string;
+  shotStyle: string;
+}
+
+export interface ShotRequest extends ProviderRequest {
+  image: InlineImage;
+  prompt: string;
+  shot: StoryboardShot;
+  desiredShotTypeEn: string;
+}
+
+/**
+ * A backend capable of serving the AI tools.
+ * Text endpoints return the raw model output; parsing stays in geminiService.
+ */
+export interface AIProvider {
+  id: string;
+  label: string;
+  /** Resolves with the edited image as a data URL */
+  inpaint: (request: InpaintRequest) => Promise<ProviderResult<string>>;
+  generateStoryboard: (request: StoryboardRequest) => Promise<ProviderResult<string>>;
+  regenerateShot: (request: ShotRequest) => Promise<ProviderResult<string>>;
+  /** Cheap call that rejects with an AIError when the given settings don't work */
+  testConnection: (settings: AISettings, signal?: AbortSignal) => Promise<void>;
+}
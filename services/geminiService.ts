@@ -1,11 +1,51 @@
 
-import { GoogleGenAI } from "@google/genai";
 import { StoryboardData, StoryboardShot } from "../types";
+import { InlineImage, ProviderResult } from "./aiProvider";
+import { getActiveProvider } from "./providerRegistry";
+import { AIError, AIErrorKind, toAIError } from "./aiErrors";
+import { RetryOptions, throwIfAborted, withRetry } from "./retry";
+import { Rect } from "../types";
+import { createCanvas, cropToDataURL, getMaskBoundingBox, getMaskCentroid, loadImage, padRect, planTiles } from "../utils/imageUtils";
+import { CompositeOptions, DEFAULT_COMPOSITE_OPTIONS, compositeMargin, compositeMasked } from "../utils/maskCompositor";
+import { ValidationResult, parseShotReply, parseStoryboardReply } from "./storyboardSchema";
+import { PromptTemplate, extractVariables, renderTemplate, resolveTemplate } from "./promptTemplates";
+import { JSON_CODEC, STRING_CODEC, withCache } from "./resultCache";
+import { resolveSettings } from "./settings";
+import { UsageTool, trackUsage } from "./usageLedger";
+import { runWithConcurrency } from "./taskQueue";
 
-const API_KEY = process.env.API_KEY || '';
+// Largest edge sent to the model.
+// 1536px is a sweet spot for quality vs speed for Gemni Flash
+const MODEL_MAX_SIZE = 1536;
 
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+// Inpainting context around the mask, and overlap between tiles for seam blending
+const MIN_CONTEXT_PADDING = 64;
+const CONTEXT_PADDING_RATIO = 0.25;
+const TILE_OVERLAP = 128;
+
+// Candidates inpainted at once; each may itself make several tile calls
+const CANDIDATE_CONCURRENCY = 2;
+
+// How many times a reply that fails validation is sent back to the model
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Per-call options shared by every public service function
+export interface AIRequestOptions {
+  signal?: AbortSignal;
+  retry?: Partial<RetryOptions>;
+  // Prompt template version for this run; defaults to the saved selection
+  templateId?: string;
+  // Skip the result cache lookup (the fresh result still replaces the cached one)
+  forceFresh?: boolean;
+}
+
+export interface InpaintOptions extends AIRequestOptions {
+  compositing?: Partial<CompositeOptions>;
+  // Generative fill: what to put in the masked area instead of background
+  instruction?: string;
+  // Neither read nor write the result cache, e.g. for alternatives that must differ
+  uncached?: boolean;
+}
 
 // Helper to resize and compress image for faster API transmission
 const resizeImage = (base64Str: string, isMask: boolean = false): Promise<string> => {
@@ -17,8 +57,7 @@ const resizeImage = (base64Str: string, isMask: boolean = false): Promise<string
     
     img.onload = () => {
       // Limit resolution to speed up processing and upload
-      // 1536px is a sweet spot for quality vs speed for Gemni Flash
-      const MAX_SIZE = 1536; 
+      const MAX_SIZE = MODEL_MAX_SIZE;
       let w = img.width;
       let h = img.height;
       
@@ -63,213 +102,306 @@ const resizeImage = (base64Str: string, isMask: boolean = false): Promise<string
   });
 };
 
+// Splits a data URL into the mime type / raw base64 pair the providers expect
+const toInlineImage = (dataUrl: string, fallbackMime: string): InlineImage => {
+  const mimeMatch = dataUrl.match(/^data:(image\/[a-zA-Z+]+);base64,/);
+  return {
+    mimeType: mimeMatch ? mimeMatch[1] : fallbackMime,
+    data: dataUrl.replace(/^data:image\/[a-zA-Z+]+;base64,/, ''),
+  };
+};
+
+// Runs one provider call and records it in the usage ledger
+const trackedCall = <T>(
+  tool: UsageTool,
+  providerId: string,
+  payload: { prompt: string; images: InlineImage[] },
+  call: () => Promise<ProviderResult<T>>
+): Promise<T> => {
+  const bytesSent = payload.prompt.length + payload.images.reduce((sum, img) => sum + img.data.length, 0);
+  return trackUsage({ tool, providerId, model: resolveSettings().model, bytesSent }, call);
+};
+
+// Templates that don't reference {{instruction}} get the fill request appended
+const buildInpaintPrompt = (template: PromptTemplate, instruction: string): string => {
+  const prompt = renderTemplate(template, { instruction });
+  if (!instruction || extractVariables(template.body).includes('instruction')) return prompt;
+  return `${prompt}
+
+Override:
+Do NOT fill the White area with background. Instead, replace it with: ${instruction}
+Match the perspective, lighting, scale and grain of the surrounding photograph.`;
+};
+
+// Appended to the original prompt when the previous reply failed validation
+const buildRepairPrompt = (prompt: string, previousReply: string, errors: string[]) => `${prompt}
+
+Your previous reply could not be used:
+${previousReply.slice(0, 4000)}
+
+Validation errors:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Fix every error above and return ONLY the corrected JSON.`;
+
+/**
+ * Calls the model, validates the reply and re-prompts with the validation
+ * errors until it passes or the attempts run out.
+ */
+const requestValidated = async <T>(
+  prompt: string,
+  call: (prompt: string) => Promise<string>,
+  parse: (text: string) => ValidationResult<T>
+): Promise<T> => {
+  let currentPrompt = prompt;
+  let lastErrors: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const text = await call(currentPrompt);
+    const result = parse(text);
+    if (result.value) {
+      if (result.repaired) console.warn("Model reply repaired locally");
+      return result.value;
+    }
+    lastErrors = result.errors;
+    console.warn(`Model reply failed validation (attempt ${attempt + 1})`, result.errors);
+    currentPrompt = buildRepairPrompt(prompt, text, result.errors);
+  }
+
+  throw new AIError(AIErrorKind.UNPARSABLE, {
+    message: "AI 返回的分镜格式错误，自动修复失败，请重试。",
+    detail: lastErrors.join('; '),
+  });
+};
+
+// Draws a tile result onto the full-resolution canvas, fading it in across the
+// overlap shared with tiles that were already pasted (left and above).
+const pasteTile = (target: CanvasRenderingContext2D, tileImage: HTMLImageElement, tile: Rect, region: Rect) => {
+  const { canvas, ctx } = createCanvas(tile.width, tile.height);
+  // Model output may come back at a different size; stretch it to the tile
+  ctx.drawImage(tileImage, 0, 0, tile.width, tile.height);
+
+  ctx.globalCompositeOperation = 'destination-in';
+  if (tile.x > region.x) {
+    const fade = ctx.createLinearGradient(0, 0, TILE_OVERLAP, 0);
+    fade.addColorStop(0, 'rgba(0,0,0,0)');
+    fade.addColorStop(1, 'rgba(0,0,0,1)');
+    ctx.fillStyle = fade;
+    ctx.fillRect(0, 0, tile.width, tile.height);
+  }
+  if (tile.y > region.y) {
+    const fade = ctx.createLinearGradient(0, 0, 0, TILE_OVERLAP);
+    fade.addColorStop(0, 'rgba(0,0,0,0)');
+    fade.addColorStop(1, 'rgba(0,0,0,1)');
+    ctx.fillStyle = fade;
+    ctx.fillRect(0, 0, tile.width, tile.height);
+  }
+
+  target.drawImage(canvas, tile.x, tile.y);
+};
+
 /**
- * Removes the masked area using Gemini Nano Banana (gemini-2.5-flash-image)
+ * Removes the masked area using the active AI provider.
+ *
+ * Only a padded crop around the mask is sent, at native resolution; regions
+ * larger than the model limit are tiled. Results are pasted back into the
+ * full-resolution original, so the output keeps the input pixel dimensions.
+ * The model output is only blended in inside the feathered mask; every other
+ * pixel is returned exactly as uploaded.
  */
 export const removeWatermark = async (
   originalImageBase64: string,
-  maskImageBase64: string
+  maskImageBase64: string,
+  options: InpaintOptions = {}
 ): Promise<string> => {
+  const { signal, retry } = options;
+  const template = resolveTemplate('inpaint', options.templateId);
+  const fillPrompt = buildInpaintPrompt(template, '');
+  const instructionPrompt = buildInpaintPrompt(template, options.instruction?.trim() || '');
+  const compositing: CompositeOptions = { ...DEFAULT_COMPOSITE_OPTIONS, ...options.compositing };
   try {
-    if (!API_KEY) {
-        throw new Error("API Key 未配置。请在URL后添加 ?key=您的API_KEY 或配置环境变量。");
-    }
-
-    // 1. Optimize images (Resize & Compress) 
-    const [optimizedOriginal, optimizedMask] = await Promise.all([
-      resizeImage(originalImageBase64, false),
-      resizeImage(maskImageBase64, true)
+    // 1. Decode both images at full resolution
+    const [originalImg, maskImg] = await Promise.all([
+      loadImage(originalImageBase64),
+      loadImage(maskImageBase64)
     ]);
+    throwIfAborted(signal);
 
-    // 2. Prepare data
-    const mimeMatch = optimizedOriginal.match(/^data:(image\/[a-zA-Z+]+);base64,/);
-    const mimeType = mimeMatch ? mimeMatch[1] : 'image/jpeg';
-    
-    const cleanOriginal = optimizedOriginal.replace(/^data:image\/[a-zA-Z+]+;base64,/, '');
-    const cleanMask = optimizedMask.replace(/^data:image\/[a-zA-Z+]+;base64,/, '');
-
-    // 3. Call API
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            text: "Image Editing Task: Inpainting.\n\nInput Data:\n- Image 1: The original photograph.\n- Image 2: A binary mask (White = Area to remove/edit, Black = Keep).\n\nGoal:\nRemove the content in Image 1 that matches the White area in Image 2. Replace it with realistic background texture that blends seamlessly with the surrounding pixels.\n\nConstraint:\nReturn ONLY the processed image.",
-          },
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: cleanOriginal,
-            },
-          },
-          {
-            inlineData: {
-              mimeType: 'image/png',
-              data: cleanMask,
-            },
-          },
-        ],
-      },
-    });
-
-    // 4. Parse Response
-    let resultImageBase64 = '';
-    
-    if (response.candidates?.[0]?.content?.parts) {
-       for (const part of response.candidates[0].content.parts) {
-         if (part.inlineData && part.inlineData.data) {
-           resultImageBase64 = `data:image/png;base64,${part.inlineData.data}`;
-           break;
-         }
-       }
-    }
+    const width = originalImg.naturalWidth;
+    const height = originalImg.naturalHeight;
+    const { canvas: resultCanvas, ctx: resultCtx } = createCanvas(width, height);
+    resultCtx.drawImage(originalImg, 0, 0);
 
-    if (!resultImageBase64) {
-      const text = response.candidates?.[0]?.content?.parts?.[0]?.text;
-      if (text) {
-          console.warn("Model failure text:", text);
-          throw new Error("AI处理失败: 模型拒绝了该请求(可能涉及敏感内容或无法识别)。");
-      }
-      throw new Error("AI生成失败，请稍后重试。");
-    }
+    const { canvas: maskCanvas, ctx: maskCtx } = createCanvas(width, height);
+    maskCtx.fillStyle = '#000000';
+    maskCtx.fillRect(0, 0, width, height);
+    maskCtx.drawImage(maskImg, 0, 0, width, height);
 
-    return resultImageBase64;
-  } catch (error: any) {
-    console.error("Gemini API Error:", error);
-    
-    if (error.message?.includes("API key not valid") || error.message?.includes("400")) {
-         throw new Error("API Key 无效。请检查环境变量，或在URL后尝试添加 ?key=您的有效API_KEY");
+    // 2. Work out the region to send: mask bounds plus surrounding context
+    // Any non-black pixel counts, so a soft (feathered) mask edge is blended in too
+    const bbox = getMaskBoundingBox(maskCtx.getImageData(0, 0, width, height), 0);
+    if (!bbox) return originalImageBase64;
+
+    const padding = Math.max(MIN_CONTEXT_PADDING, Math.round(Math.max(bbox.width, bbox.height) * CONTEXT_PADDING_RATIO));
+    const region = padRect(bbox, padding, { width, height });
+    const tiles = planTiles(region, MODEL_MAX_SIZE, TILE_OVERLAP)
+      .filter(tile => getMaskBoundingBox(maskCtx.getImageData(tile.x, tile.y, tile.width, tile.height), 0));
+
+    // A generative fill object is requested once, from the masked tile holding the
+    // mask centroid (or nearest to it, for hollow masks); every other tile just
+    // continues the background around it
+    const local = getMaskCentroid(maskCtx.getImageData(bbox.x, bbox.y, bbox.width, bbox.height))
+      ?? { x: bbox.width / 2, y: bbox.height / 2 };
+    const centroid = { x: bbox.x + local.x, y: bbox.y + local.y };
+    const distanceToCentroid = (tile: Rect) =>
+      Math.hypot(tile.x + tile.width / 2 - centroid.x, tile.y + tile.height / 2 - centroid.y);
+    const instructionTile = tiles.find(tile =>
+      centroid.x >= tile.x && centroid.x < tile.x + tile.width && centroid.y >= tile.y && centroid.y < tile.y + tile.height
+    ) ?? tiles.reduce((best, tile) => distanceToCentroid(tile) < distanceToCentroid(best) ? tile : best);
+
+    // 3. Inpaint tile by tile. Each crop is taken from the working canvas so
+    //    overlaps already contain the neighbouring tile's result.
+    for (const tile of tiles) {
+      throwIfAborted(signal);
+      const prompt = tile === instructionTile ? instructionPrompt : fillPrompt;
+
+      const image = toInlineImage(cropToDataURL(resultCanvas, tile, 'image/jpeg', 0.92), 'image/jpeg');
+      const mask = toInlineImage(cropToDataURL(maskCanvas, tile, 'image/png'), 'image/png');
+      const provider = getActiveProvider();
+      const inpaint = () => withRetry(() => trackedCall('watermark', provider.id, { prompt, images: [image, mask] },
+        () => provider.inpaint({ image, mask, signal, prompt })), signal, retry);
+      const tileResult = options.uncached
+        ? await inpaint()
+        : await withCache(
+            ['inpaint', provider.id, resolveSettings().model, template.id, prompt, image.data, mask.data],
+            inpaint,
+            STRING_CODEC,
+            options.forceFresh
+          );
+
+      pasteTile(resultCtx, await loadImage(tileResult), tile, region);
     }
 
-    throw error;
+    // 4. Keep the model output only inside the feathered mask
+    const blendRegion = padRect(bbox, compositeMargin(compositing), { width, height });
+    const { canvas: outputCanvas, ctx: outputCtx } = createCanvas(width, height);
+    outputCtx.drawImage(originalImg, 0, 0);
+    const { x, y, width: bw, height: bh } = blendRegion;
+    const blended = compositeMasked(
+      outputCtx.getImageData(x, y, bw, bh),
+      resultCtx.getImageData(x, y, bw, bh),
+      maskCtx.getImageData(x, y, bw, bh),
+      compositing
+    );
+    outputCtx.putImageData(blended, x, y);
+
+    return outputCanvas.toDataURL('image/png');
+  } catch (error) {
+    console.error("AI Provider Error:", error);
+    throw toAIError(error);
   }
 };
 
+/**
+ * Runs `count` independent removals of the same input, a few at a time, so the user
+ * can pick the best fill. Failed attempts are dropped; only when every attempt fails
+ * is the first error thrown. Results keep their request order.
+ */
+export const removeWatermarkCandidates = async (
+  originalImageBase64: string,
+  maskImageBase64: string,
+  count: number,
+  options: InpaintOptions = {},
+  onProgress?: (finished: number) => void
+): Promise<string[]> => {
+  let finished = 0;
+  const results: (string | undefined)[] = new Array(count);
+  const errors: unknown[] = [];
+  const indices = Array.from({ length: count }, (_, index) => index);
+  await runWithConcurrency(indices, CANDIDATE_CONCURRENCY, async (index: number) => {
+    try {
+      // Cached results would hand back the same alternatives on every run
+      results[index] = await removeWatermark(originalImageBase64, maskImageBase64, { ...options, uncached: true });
+    } catch (error) {
+      errors.push(error);
+    } finally {
+      onProgress?.(++finished);
+    }
+  }, options.signal);
+  throwIfAborted(options.signal);
+  const succeeded = results.filter((result): result is string => result !== undefined);
+  if (succeeded.length === 0) throw errors[0];
+  return succeeded;
+};
+
 /**
  * Generates a structured 3x3 storyboard prompt with highly detailed descriptions.
  */
 export const generateStoryboardData = async (
     imageBase64: string, 
-    shotStyle: string
+    shotStyle: string,
+    options: AIRequestOptions = {}
 ): Promise<StoryboardData> => {
+    const { signal, retry } = options;
     try {
-        if (!API_KEY) throw new Error("API Key Missing");
-
         const optimizedImage = await resizeImage(imageBase64, false);
-        const mimeMatch = optimizedImage.match(/^data:(image\/[a-zA-Z+]+);base64,/);
-        const mimeType = mimeMatch ? mimeMatch[1] : 'image/jpeg';
-        const cleanData = optimizedImage.replace(/^data:image\/[a-zA-Z+]+;base64,/, '');
-
-        const prompt = `
-            Role: Expert Cinematographer and Midjourney/Stable Diffusion Prompt Engineer.
-            Task: Analyze the input image and create a **highly detailed** 9-shot storyboard plan (3x3 grid) for AI image generation.
-            Requested Style: ${shotStyle}.
-
-            INSTRUCTIONS:
-            1. **Reverse Engineering**: Analyze the input image's lighting (e.g., volumetric, natural, neon), texture (e.g., film grain, 8k, unreal engine 5), colors, and subject details.
-            2. **Main Prompt**: Write a master description that establishes the world, atmosphere, and artistic style. It must be descriptive enough to set the tone for all shots.
-            3. **Shot Details**: For each of the 9 shots, provide a **rich, visual description**. 
-               - DO NOT just say "A man standing". 
-               - DO SAY "A cinematic medium shot of a man standing in rain, rim lighting, shallow depth of field, 35mm lens, intense expression, hyper-realistic texture."
-               - Ensure variety in camera angles based on the requested style.
-            
-            Output Constraint: Return strictly valid JSON. No Markdown.
-            
-            JSON Structure:
-            {
-              "mainPromptCn": "Detailed Chinese description of environment, lighting, artistic style, and subject attributes.",
-              "mainPromptEn": "Detailed English description of environment, lighting, artistic style, and subject attributes.",
-              "shots": [
-                 { 
-                   "id": 1, 
-                   "shotTypeCn": "e.g. 特写", 
-                   "shotTypeEn": "e.g. Close-up", 
-                   "contentCn": "Rich Chinese description of Shot 1 including action, lighting, and camera details.", 
-                   "contentEn": "Rich English description of Shot 1 including action, lighting, and camera details." 
-                 },
-                 ... (total 9 items)
-              ]
-            }
-        `;
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: {
-                parts: [
-                    { text: prompt },
-                    { inlineData: { mimeType, data: cleanData } }
-                ]
-            }
-        });
+        throwIfAborted(signal);
 
-        const text = response.candidates?.[0]?.content?.parts?.[0]?.text;
-        if (!text) throw new Error("No response from AI");
+        const template = resolveTemplate('storyboard', options.templateId);
+        const prompt = renderTemplate(template, { shotStyle });
 
-        const jsonStr = text.replace(/```json/g, '').replace(/```/g, '').trim();
-        return JSON.parse(jsonStr);
+        const image = toInlineImage(optimizedImage, 'image/jpeg');
+        const provider = getActiveProvider();
+        return await withCache<StoryboardData>(
+            ['storyboard', provider.id, resolveSettings().model, template.id, prompt, image.data],
+            () => requestValidated(
+                prompt,
+                (p) => withRetry(() => trackedCall('storyboard', provider.id, { prompt: p, images: [image] },
+                    () => provider.generateStoryboard({ image, prompt: p, shotStyle, signal })), signal, retry),
+                parseStoryboardReply
+            ),
+            JSON_CODEC,
+            options.forceFresh
+        );
 
     } catch (error) {
         console.error("Storyboard Gen Error", error);
-        throw error;
+        throw toAIError(error);
     }
 }
 
 /**
  * Regenerates a single shot description with high detail.
+ * Never cached: asking again is how users get a different variant.
  */
 export const regenerateSingleShot = async (
     imageBase64: string,
     currentShot: StoryboardShot,
     mainPromptEn: string,
-    desiredShotTypeEn: string
+    desiredShotTypeEn: string,
+    options: AIRequestOptions = {}
 ): Promise<StoryboardShot> => {
+    const { signal, retry } = options;
     try {
-        if (!API_KEY) throw new Error("API Key Missing");
-
         const optimizedImage = await resizeImage(imageBase64, false);
-        const mimeMatch = optimizedImage.match(/^data:(image\/[a-zA-Z+]+);base64,/);
-        const mimeType = mimeMatch ? mimeMatch[1] : 'image/jpeg';
-        const cleanData = optimizedImage.replace(/^data:image\/[a-zA-Z+]+;base64,/, '');
-
-        const prompt = `
-            Role: Expert Cinematographer.
-            Context: We are refining a 3x3 storyboard for AI generation.
-            Main Scene Context: ${mainPromptEn}
-            
-            Task: Rewrite the description for Shot #${currentShot.id} to match the new Shot Type: "${desiredShotTypeEn}".
-            
-            Requirements:
-            - The new description must be **visually rich and detailed**.
-            - Include specific details about the subject's pose/action relevant to the new shot type.
-            - Include lighting, camera lens (e.g., "wide angle", "telephoto"), and depth of field details.
-            - Maintain consistency with the Main Scene Context.
-            
-            Output Constraint: Return strictly valid JSON for a single shot object.
-            {
-               "id": ${currentShot.id},
-               "shotTypeCn": "...",
-               "shotTypeEn": "${desiredShotTypeEn}",
-               "contentCn": "Detailed Chinese description...",
-               "contentEn": "Detailed English description..."
-            }
-        `;
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: {
-                parts: [
-                    { text: prompt },
-                    { inlineData: { mimeType, data: cleanData } }
-                ]
-            }
+        throwIfAborted(signal);
+
+        const prompt = renderTemplate(resolveTemplate('shot', options.templateId), {
+            mainPromptEn,
+            shotId: currentShot.id,
+            desiredShotTypeEn
         });
 
-        const text = response.candidates?.[0]?.content?.parts?.[0]?.text;
-        if (!text) throw new Error("No response");
-        const jsonStr = text.replace(/```json/g, '').replace(/```/g, '').trim();
-        return JSON.parse(jsonStr);
+        const image = toInlineImage(optimizedImage, 'image/jpeg');
+        const provider = getActiveProvider();
+        return await requestValidated(
+            prompt,
+            (p) => withRetry(() => trackedCall('shot', provider.id, { prompt: p, images: [image] },
+                () => provider.regenerateShot({ image, prompt: p, shot: currentShot, desiredShotTypeEn, signal })), signal, retry),
+            (text) => parseShotReply(text, currentShot.id)
+        );
     } catch (error) {
         console.error("Single Shot Gen Error", error);
-        throw error;
+        throw toAIError(error);
     }
 }
@@ -0,0 +1,51 @@
+// Minimal promise wrapper around the app's IndexedDB database.
+
+const DB_NAME = 'magic-zheng';
+const DB_VERSION = 2;
+
+export const STORES = {
+  RESULT_CACHE: 'resultCache',
+  USAGE_LEDGER: 'usageLedger',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB unavailable"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.RESULT_CACHE)) {
+        const store = db.createObjectStore(STORES.RESULT_CACHE, { keyPath: 'key' });
+        store.createIndex('lastAccess', 'lastAccess');
+      }
+      if (!db.objectStoreNames.contains(STORES.USAGE_LEDGER)) {
+        const store = db.createObjectStore(STORES.USAGE_LEDGER, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('startedAt', 'startedAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a later retry if opening failed (e.g. blocked by another tab)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
@@ -0,0 +1,40 @@
+import { MaskDocument } from "../utils/maskSerialization";
+
+export interface MaskPreset {
+  id: string;
+  name: string;
+  createdAt: number;
+  mask: MaskDocument;
+}
+
+const PRESETS_STORAGE_KEY = 'magic-zheng:mask-presets';
+
+export const listMaskPresets = (): MaskPreset[] => {
+  try {
+    const raw = localStorage.getItem(PRESETS_STORAGE_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch (e) {
+    console.warn("Unable to read mask presets", e);
+  }
+  return [];
+};
+
+const saveMaskPresets = (presets: MaskPreset[]) => {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
+
+/** Saves a named preset; an existing preset with the same name is replaced */
+export const saveMaskPreset = (name: string, mask: MaskDocument): MaskPreset => {
+  const preset: MaskPreset = {
+    id: `mask-${Date.now().toString(36)}`,
+    name: name.trim(),
+    createdAt: Date.now(),
+    mask,
+  };
+  saveMaskPresets([...listMaskPresets().filter(p => p.name !== preset.name), preset]);
+  return preset;
+};
+
+export const deleteMaskPreset = (id: string) => {
+  saveMaskPresets(listMaskPresets().filter(p => p.id !== id));
+};
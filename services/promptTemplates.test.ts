@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  PROMPT_KIND_LABELS,
+  deleteTemplate,
+  extractVariables,
+  getSelectedTemplate,
+  listTemplates,
+  renderTemplate,
+  resolveTemplate,
+  saveTemplateVersion,
+  setSelectedTemplateId,
+} from './promptTemplates';
+
+beforeEach(() => {
+  // Node has no localStorage; templates only need get/set
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+  });
+});
+
+describe('saveTemplateVersion', () => {
+  it('adds the next version on top of a built-in family', () => {
+    const first = saveTemplateVersion({ kind: 'inpaint', name: '我的消除', body: 'v2', family: 'inpaint-default' });
+    const second = saveTemplateVersion({ kind: 'inpaint', name: '我的消除', body: 'v3', family: 'inpaint-default' });
+    expect([first.id, second.id]).toEqual(['inpaint-default@2', 'inpaint-default@3']);
+    expect(listTemplates('inpaint').map(t => t.version)).toEqual([3, 2, 1]);
+  });
+
+  it('starts a new family at version 1 and names it after the kind when blank', () => {
+    const template = saveTemplateVersion({ kind: 'shot', name: '  ', body: 'x' });
+    expect(template.version).toBe(1);
+    expect(template.family).toMatch(/^custom-/);
+    expect(template.name).toBe(PROMPT_KIND_LABELS.shot);
+  });
+
+  it('deletes user versions only', () => {
+    const saved = saveTemplateVersion({ kind: 'storyboard', name: 'a', body: 'x', family: 'storyboard-default' });
+    deleteTemplate(saved.id);
+    deleteTemplate('storyboard-default@1');
+    expect(listTemplates('storyboard').map(t => t.id)).toEqual(['storyboard-default@1']);
+  });
+});
+
+describe('template selection', () => {
+  it('falls back to the built-in default for missing or mismatched ids', () => {
+    expect(getSelectedTemplate('inpaint').id).toBe('inpaint-default@1');
+    setSelectedTemplateId('inpaint', 'shot-default@1');
+    expect(getSelectedTemplate('inpaint').id).toBe('inpaint-default@1');
+    expect(resolveTemplate('inpaint', 'missing@1').id).toBe('inpaint-default@1');
+  });
+
+  it('prefers an explicit id over the saved selection', () => {
+    const v2 = saveTemplateVersion({ kind: 'inpaint', name: 'a', body: 'x', family: 'inpaint-default' });
+    setSelectedTemplateId('inpaint', v2.id);
+    expect(getSelectedTemplate('inpaint').id).toBe(v2.id);
+    expect(resolveTemplate('inpaint', 'inpaint-default@1').id).toBe('inpaint-default@1');
+  });
+});
+
+describe('renderTemplate', () => {
+  it('substitutes known variables and leaves unknown ones in place', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const template = saveTemplateVersion({ kind: 'shot', name: 'a', body: '镜头 {{ shotId }} / {{typo}} / {{shotId}}' });
+    expect(extractVariables(template.body)).toEqual(['shotId', 'typo']);
+    expect(renderTemplate(template, { shotId: 3 })).toBe('镜头 3 / {{typo}} / 3');
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
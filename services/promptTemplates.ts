@@ -0,0 +1,223 @@
+export type PromptKind = 'inpaint' | 'storyboard' | 'shot';
+
+export interface PromptTemplate {
+  // Unique per version, e.g. "storyboard-default@1". Used in cache keys and logs.
+  id: string;
+  // Versions of the same template share a family
+  family: string;
+  kind: PromptKind;
+  name: string;
+  version: number;
+  body: string;
+  builtIn: boolean;
+  createdAt: number;
+}
+
+const TEMPLATES_STORAGE_KEY = 'magic-zheng:prompt-templates';
+const SELECTION_STORAGE_KEY = 'magic-zheng:prompt-selection';
+
+// Variables each kind of template can reference as {{name}}
+export const TEMPLATE_VARIABLES: Record<PromptKind, string[]> = {
+  inpaint: ['instruction'],
+  storyboard: ['shotStyle'],
+  shot: ['mainPromptEn', 'shotId', 'desiredShotTypeEn'],
+};
+
+export const PROMPT_KIND_LABELS: Record<PromptKind, string> = {
+  inpaint: '局部重绘',
+  storyboard: '九宫格分镜',
+  shot: '单镜头重绘',
+};
+
+const INPAINT_BODY = `Image Editing Task: Inpainting.
+
+Input Data:
+- Image 1: The original photograph.
+- Image 2: A binary mask (White = Area to remove/edit, Black = Keep).
+
+Goal:
+Remove the content in Image 1 that matches the White area in Image 2. Replace it with realistic background texture that blends seamlessly with the surrounding pixels.
+
+Constraint:
+Return ONLY the processed image.`;
+
+const STORYBOARD_BODY = `Role: Expert Cinematographer and Midjourney/Stable Diffusion Prompt Engineer.
+Task: Analyze the input image and create a **highly detailed** 9-shot storyboard plan (3x3 grid) for AI image generation.
+Requested Style: {{shotStyle}}.
+
+INSTRUCTIONS:
+1. **Reverse Engineering**: Analyze the input image's lighting (e.g., volumetric, natural, neon), texture (e.g., film grain, 8k, unreal engine 5), colors, and subject details.
+2. **Main Prompt**: Write a master description that establishes the world, atmosphere, and artistic style. It must be descriptive enough to set the tone for all shots.
+3. **Shot Details**: For each of the 9 shots, provide a **rich, visual description**.
+   - DO NOT just say "A man standing".
+   - DO SAY "A cinematic medium shot of a man standing in rain, rim lighting, shallow depth of field, 35mm lens, intense expression, hyper-realistic texture."
+   - Ensure variety in camera angles based on the requested style.
+
+Output Constraint: Return strictly valid JSON. No Markdown.
+
+JSON Structure:
+{
+  "mainPromptCn": "Detailed Chinese description of environment, lighting, artistic style, and subject attributes.",
+  "mainPromptEn": "Detailed English description of environment, lighting, artistic style, and subject attributes.",
+  "shots": [
+     {
+       "id": 1,
+       "shotTypeCn": "e.g. 特写",
+       "shotTypeEn": "e.g. Close-up",
+       "contentCn": "Rich Chinese description of Shot 1 including action, lighting, and camera details.",
+       "contentEn": "Rich English description of Shot 1 including action, lighting, and camera details."
+     },
+     ... (total 9 items)
+  ]
+}`;
+
+const SHOT_BODY = `Role: Expert Cinematographer.
+Context: We are refining a 3x3 storyboard for AI generation.
+Main Scene Context: {{mainPromptEn}}
+
+Task: Rewrite the description for Shot #{{shotId}} to match the new Shot Type: "{{desiredShotTypeEn}}".
+
+Requirements:
+- The new description must be **visually rich and detailed**.
+- Include specific details about the subject's pose/action relevant to the new shot type.
+- Include lighting, camera lens (e.g., "wide angle", "telephoto"), and depth of field details.
+- Maintain consistency with the Main Scene Context.
+
+Output Constraint: Return strictly valid JSON for a single shot object.
+{
+   "id": {{shotId}},
+   "shotTypeCn": "...",
+   "shotTypeEn": "{{desiredShotTypeEn}}",
+   "contentCn": "Detailed Chinese description...",
+   "contentEn": "Detailed English description..."
+}`;
+
+const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'inpaint-default@1',
+    family: 'inpaint-default',
+    kind: 'inpaint',
+    name: '默认消除',
+    version: 1,
+    builtIn: true,
+    createdAt: 0,
+    body: INPAINT_BODY,
+  },
+  {
+    id: 'storyboard-default@1',
+    family: 'storyboard-default',
+    kind: 'storyboard',
+    name: '默认分镜',
+    version: 1,
+    builtIn: true,
+    createdAt: 0,
+    body: STORYBOARD_BODY,
+  },
+  {
+    id: 'shot-default@1',
+    family: 'shot-default',
+    kind: 'shot',
+    name: '默认单镜头',
+    version: 1,
+    builtIn: true,
+    createdAt: 0,
+    body: SHOT_BODY,
+  },
+];
+
+const loadUserTemplates = (): PromptTemplate[] => {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch (e) {
+    console.warn("Unable to read prompt templates", e);
+  }
+  return [];
+};
+
+const saveUserTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
+
+const loadSelection = (): Partial<Record<PromptKind, string>> => {
+  try {
+    const raw = localStorage.getItem(SELECTION_STORAGE_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch (e) {
+    console.warn("Unable to read prompt selection", e);
+  }
+  return {};
+};
+
+export const listTemplates = (kind: PromptKind): PromptTemplate[] =>
+  [...BUILT_IN_TEMPLATES, ...loadUserTemplates()]
+    .filter(t => t.kind === kind)
+    .sort((a, b) => a.family.localeCompare(b.family) || b.version - a.version);
+
+export const getTemplate = (id: string): PromptTemplate | undefined =>
+  [...BUILT_IN_TEMPLATES, ...loadUserTemplates()].find(t => t.id === id);
+
+const defaultTemplate = (kind: PromptKind): PromptTemplate =>
+  BUILT_IN_TEMPLATES.find(t => t.kind === kind)!;
+
+/** The template used when a run doesn't pick one explicitly */
+export const getSelectedTemplate = (kind: PromptKind): PromptTemplate => {
+  const selectedId = loadSelection()[kind];
+  const selected = selectedId ? getTemplate(selectedId) : undefined;
+  return selected && selected.kind === kind ? selected : defaultTemplate(kind);
+};
+
+export const setSelectedTemplateId = (kind: PromptKind, id: string) => {
+  localStorage.setItem(SELECTION_STORAGE_KEY, JSON.stringify({ ...loadSelection(), [kind]: id }));
+};
+
+// Explicit id for this run, else the saved selection, else the built-in default
+export const resolveTemplate = (kind: PromptKind, id?: string): PromptTemplate => {
+  const template = id ? getTemplate(id) : undefined;
+  return template && template.kind === kind ? template : getSelectedTemplate(kind);
+};
+
+/**
+ * Saves `body` as a new version. Passing a family adds the next version to it
+ * (editing a built-in creates the user's override); omitting it starts a new family.
+ */
+export const saveTemplateVersion = (input: { kind: PromptKind; name: string; body: string; family?: string }): PromptTemplate => {
+  const userTemplates = loadUserTemplates();
+  const family = input.family || `custom-${Date.now().toString(36)}`;
+  const latest = [...BUILT_IN_TEMPLATES, ...userTemplates]
+    .filter(t => t.family === family)
+    .reduce((max, t) => Math.max(max, t.version), 0);
+
+  const template: PromptTemplate = {
+    id: `${family}@${latest + 1}`,
+    family,
+    kind: input.kind,
+    name: input.name.trim() || PROMPT_KIND_LABELS[input.kind],
+    version: latest + 1,
+    body: input.body,
+    builtIn: false,
+    createdAt: Date.now(),
+  };
+  saveUserTemplates([...userTemplates, template]);
+  return template;
+};
+
+export const deleteTemplate = (id: string) => {
+  saveUserTemplates(loadUserTemplates().filter(t => t.id !== id));
+};
+
+/** Names referenced as {{name}} in a template body */
+export const extractVariables = (body: string): string[] =>
+  Array.from(new Set(Array.from(body.matchAll(/\{\{\s*(\w+)\s*\}\}/g), m => m[1])));
+
+/**
+ * Substitutes {{name}} placeholders. Unknown names are left in place
+ * and reported so a typo in an override doesn't fail silently.
+ */
+export const renderTemplate = (template: PromptTemplate, variables: Record<string, string | number>): string => {
+  return template.body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => {
+    if (name in variables) return String(variables[name]);
+    console.warn(`Prompt template ${template.id} references unknown variable "${name}"`);
+    return match;
+  });
+};
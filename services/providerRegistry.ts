@@ -0,0 +1,48 @@
+import { AIProvider } from "./aiProvider";
+import { geminiProvider } from "./providers/geminiProvider";
+import { mockProvider } from "./providers/mockProvider";
+
+const STORAGE_KEY = 'magic-zheng:provider';
+const DEFAULT_PROVIDER_ID = geminiProvider.id;
+
+const providers = new Map<string, AIProvider>();
+
+export const registerProvider = (provider: AIProvider) => {
+  providers.set(provider.id, provider);
+};
+
+registerProvider(geminiProvider);
+registerProvider(mockProvider);
+
+export const listProviders = (): AIProvider[] => Array.from(providers.values());
+
+export const getProvider = (id: string): AIProvider => providers.get(id) || geminiProvider;
+
+// Priority: ?provider= URL parameter > saved choice > default
+const readInitialProviderId = (): string => {
+  try {
+    const fromUrl = new URLSearchParams(window.location.search).get('provider');
+    if (fromUrl && providers.has(fromUrl)) return fromUrl;
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved && providers.has(saved)) return saved;
+  } catch (e) {
+    console.warn("Unable to read provider preference", e);
+  }
+  return DEFAULT_PROVIDER_ID;
+};
+
+let activeProviderId = readInitialProviderId();
+
+export const getActiveProviderId = (): string => activeProviderId;
+
+export const getActiveProvider = (): AIProvider => getProvider(activeProviderId);
+
+export const setActiveProviderId = (id: string) => {
+  if (!providers.has(id)) return;
+  activeProviderId = id;
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch (e) {
+    console.warn("Unable to persist provider preference", e);
+  }
+};
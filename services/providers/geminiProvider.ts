@@ -0,0 +1,109 @@
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { AIProvider, InlineImage, ProviderResult, TokenUsage } from "../aiProvider";
+import { AIError, AIErrorKind, toAIError } from "../aiErrors";
+import { AISettings, resolveSettings } from "../settings";
+
+// Clients are cheap but keep one per key/endpoint so repeated calls reuse it
+let cachedClient: { apiKey: string; endpoint: string; ai: GoogleGenAI } | null = null;
+
+const getClient = ({ apiKey, endpoint }: AISettings): GoogleGenAI => {
+  if (!apiKey) {
+    throw new AIError(AIErrorKind.MISSING_KEY);
+  }
+  if (!cachedClient || cachedClient.apiKey !== apiKey || cachedClient.endpoint !== endpoint) {
+    cachedClient = {
+      apiKey,
+      endpoint,
+      ai: new GoogleGenAI({ apiKey, httpOptions: endpoint ? { baseUrl: endpoint } : undefined }),
+    };
+  }
+  return cachedClient.ai;
+};
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+const generate = async (prompt: string, images: InlineImage[], signal?: AbortSignal): Promise<GenerateContentResponse> => {
+  const settings = resolveSettings();
+  const ai = getClient(settings);
+  try {
+    return await ai.models.generateContent({
+      model: settings.model,
+      contents: {
+        parts: [
+          { text: prompt },
+          ...images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+        ],
+      },
+      config: { abortSignal: signal },
+    });
+  } catch (error) {
+    throw toAIError(error);
+  }
+};
+
+// Prompt-level blocks and safety stops surface as refusals rather than empty output
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+    throw new AIError(AIErrorKind.SAFETY, { detail: String(blockReason || finishReason) });
+  }
+};
+
+const getUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+  const meta = response.usageMetadata;
+  if (!meta) return undefined;
+  return {
+    promptTokens: meta.promptTokenCount,
+    outputTokens: meta.candidatesTokenCount,
+    totalTokens: meta.totalTokenCount,
+  };
+};
+
+const getText = (response: GenerateContentResponse): ProviderResult<string> => {
+  assertNotBlocked(response);
+  const text = response.candidates?.[0]?.content?.parts?.[0]?.text;
+  if (!text) throw new AIError(AIErrorKind.UNPARSABLE, { message: "AI 未返回任何内容，请重试。" });
+  return { value: text, usage: getUsage(response) };
+};
+
+/**
+ * Google Gemini backend. Key, model and endpoint come from the settings panel.
+ */
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+
+  inpaint: async ({ image, mask, prompt, signal }) => {
+    const response = await generate(prompt, [image, mask], signal);
+    assertNotBlocked(response);
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData && part.inlineData.data) {
+        return { value: `data:image/png;base64,${part.inlineData.data}`, usage: getUsage(response) };
+      }
+    }
+
+    // A text-only reply means the model declined to edit the image
+    const text = response.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (text) {
+      console.warn("Model failure text:", text);
+      throw new AIError(AIErrorKind.SAFETY, { detail: text });
+    }
+    throw new AIError(AIErrorKind.EMPTY_IMAGE);
+  },
+
+  generateStoryboard: async ({ image, prompt, signal }) => getText(await generate(prompt, [image], signal)),
+
+  regenerateShot: async ({ image, prompt, signal }) => getText(await generate(prompt, [image], signal)),
+
+  // Fetching the model's metadata checks the key, endpoint and model id without spending tokens
+  testConnection: async (settings, signal) => {
+    const ai = getClient(settings);
+    try {
+      await ai.models.get({ model: settings.model, config: { abortSignal: signal } });
+    } catch (error) {
+      throw toAIError(error);
+    }
+  },
+};
@@ -0,0 +1,131 @@
+import { AIProvider } from "../aiProvider";
+import { StoryboardData, StoryboardShot } from "../../types";
+import { createCanvas, loadImage, toDataURL } from "../../utils/imageUtils";
+import { sleep } from "../retry";
+
+// Simulated network latency so loading states stay visible during demos
+const MOCK_LATENCY_MS = 800;
+
+// Mock calls are free; report zero so the usage ledger still gets an entry
+const MOCK_USAGE = { promptTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+const SHOT_PRESETS: { en: string; cn: string }[] = [
+  { en: 'Extreme Long Shot', cn: '大远景' },
+  { en: 'Long Shot', cn: '远景' },
+  { en: 'Full Shot', cn: '全景' },
+  { en: 'Medium Shot', cn: '中景' },
+  { en: 'Close-up', cn: '特写' },
+  { en: 'Extreme Close-up', cn: '大特写' },
+  { en: 'Low Angle', cn: '低角度 (仰视)' },
+  { en: 'High Angle', cn: '高角度 (俯视)' },
+  { en: 'Over the Shoulder', cn: '过肩镜头' },
+];
+
+const buildShot = (id: number, typeEn: string, typeCn: string): StoryboardShot => ({
+  id,
+  shotTypeCn: typeCn,
+  shotTypeEn: typeEn,
+  contentCn: `[模拟] 镜头${id}：${typeCn}，主体位于画面中央，柔和侧光，浅景深，电影质感。`,
+  contentEn: `[Mock] Shot ${id}: ${typeEn} of the subject centered in frame, soft side lighting, shallow depth of field, cinematic texture.`,
+});
+
+/**
+ * Fills masked pixels by interpolating between the nearest unmasked pixels
+ * on the same row and column. Deterministic and good enough to preview the flow.
+ */
+const fillMaskedPixels = (pixels: Uint8ClampedArray, mask: Uint8ClampedArray, w: number, h: number) => {
+  const isMasked = (i: number) => mask[i * 4] > 127;
+  const source = new Uint8ClampedArray(pixels);
+
+  const sampleAlong = (x: number, y: number, dx: number, dy: number): { i: number; dist: number } | null => {
+    let cx = x + dx;
+    let cy = y + dy;
+    let dist = 1;
+    while (cx >= 0 && cy >= 0 && cx < w && cy < h) {
+      const i = cy * w + cx;
+      if (!isMasked(i)) return { i, dist };
+      cx += dx;
+      cy += dy;
+      dist++;
+    }
+    return null;
+  };
+
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const idx = y * w + x;
+      if (!isMasked(idx)) continue;
+
+      const samples = [
+        sampleAlong(x, y, -1, 0),
+        sampleAlong(x, y, 1, 0),
+        sampleAlong(x, y, 0, -1),
+        sampleAlong(x, y, 0, 1),
+      ].filter((s): s is { i: number; dist: number } => s !== null);
+      if (samples.length === 0) continue;
+
+      // Inverse-distance weighting keeps the fill smooth across the hole
+      let totalWeight = 0;
+      const rgb = [0, 0, 0];
+      samples.forEach(({ i, dist }) => {
+        const weight = 1 / dist;
+        totalWeight += weight;
+        for (let c = 0; c < 3; c++) rgb[c] += source[i * 4 + c] * weight;
+      });
+      for (let c = 0; c < 3; c++) pixels[idx * 4 + c] = Math.round(rgb[c] / totalWeight);
+    }
+  }
+};
+
+/**
+ * Offline provider returning canned, deterministic results. No API key needed.
+ */
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Mock (离线)',
+
+  inpaint: async ({ image, mask, signal }) => {
+    const [imageEl, maskEl] = await Promise.all([
+      loadImage(toDataURL(image)),
+      loadImage(toDataURL(mask)),
+    ]);
+    await sleep(MOCK_LATENCY_MS, signal);
+
+    const w = imageEl.width;
+    const h = imageEl.height;
+    const { canvas, ctx } = createCanvas(w, h);
+
+    ctx.drawImage(maskEl, 0, 0, w, h);
+    const maskData = ctx.getImageData(0, 0, w, h).data;
+    ctx.drawImage(imageEl, 0, 0, w, h);
+    const imageData = ctx.getImageData(0, 0, w, h);
+
+    fillMaskedPixels(imageData.data, maskData, w, h);
+    ctx.putImageData(imageData, 0, 0);
+    return { value: canvas.toDataURL('image/png'), usage: MOCK_USAGE };
+  },
+
+  generateStoryboard: async ({ shotStyle, signal }) => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const data: StoryboardData = {
+      mainPromptCn: `[模拟] 参考图场景的主描述，风格：${shotStyle}。`,
+      mainPromptEn: `[Mock] Master description of the reference scene, style: ${shotStyle}.`,
+      shots: SHOT_PRESETS.map((preset, i) => buildShot(i + 1, preset.en, preset.cn)),
+    };
+    // Fenced like real model output so the parsing path is exercised too
+    return { value: "```json\n" + JSON.stringify(data, null, 2) + "\n```", usage: MOCK_USAGE };
+  },
+
+  regenerateShot: async ({ shot, desiredShotTypeEn, signal }) => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const preset = SHOT_PRESETS.find(p => p.en === desiredShotTypeEn);
+    return {
+      value: JSON.stringify(buildShot(shot.id, desiredShotTypeEn, preset ? preset.cn : desiredShotTypeEn)),
+      usage: MOCK_USAGE,
+    };
+  },
+
+  testConnection: async (_settings, signal) => {
+    await sleep(200, signal);
+  },
+};
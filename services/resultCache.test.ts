@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { JSON_CODEC, STRING_CODEC, hashKey, withCache } from './resultCache';
+import { openDatabase } from './idb';
+
+// In-memory stand-in for the one object store the cache uses
+const entries = new Map<string, { key: string; value: string }>();
+
+vi.mock('./idb', () => {
+  const store = {
+    get: (key: string) => ({ result: entries.get(key) }),
+    put: (entry: { key: string; value: string }) => { entries.set(entry.key, entry); },
+    // Eviction walks the index; an empty cursor ends the walk
+    index: () => ({
+      openCursor: () => {
+        const request: { result: null; onsuccess?: () => void } = { result: null };
+        queueMicrotask(() => request.onsuccess?.());
+        return request;
+      },
+    }),
+  };
+  const db = { transaction: () => ({ objectStore: () => store }) };
+  return {
+    STORES: { RESULT_CACHE: 'resultCache' },
+    openDatabase: vi.fn(async () => db),
+    requestToPromise: async (request: { result: unknown }) => request.result,
+    transactionDone: async () => {},
+  };
+});
+
+// withCache writes in the background; let that settle
+const flushWrites = () => new Promise(resolve => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  entries.clear();
+  vi.mocked(openDatabase).mockReset();
+});
+
+describe('hashKey', () => {
+  it('is a stable hex SHA-256', async () => {
+    const key = await hashKey(['model', 'prompt']);
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashKey(['model', 'prompt'])).toBe(key);
+  });
+
+  it('keeps part boundaries distinct', async () => {
+    expect(await hashKey(['ab', 'c'])).not.toBe(await hashKey(['a', 'bc']));
+    expect(await hashKey(['a|b'])).not.toBe(await hashKey(['a', 'b']));
+  });
+});
+
+describe('withCache', () => {
+  it('computes once and serves the stored value afterwards', async () => {
+    const compute = vi.fn(async () => ({ shots: [1, 2, 3] }));
+    expect(await withCache(['k'], compute, JSON_CODEC)).toEqual({ shots: [1, 2, 3] });
+    await flushWrites();
+    expect(await withCache(['k'], compute, JSON_CODEC)).toEqual({ shots: [1, 2, 3] });
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('recomputes and overwrites when forced fresh', async () => {
+    await withCache(['k'], async () => 'old', STRING_CODEC);
+    await flushWrites();
+    expect(await withCache(['k'], async () => 'new', STRING_CODEC, true)).toBe('new');
+    await flushWrites();
+    expect(await withCache(['k'], async () => 'unused', STRING_CODEC)).toBe('new');
+  });
+
+  it('still computes when the cache is unavailable', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(openDatabase).mockRejectedValue(new Error('IndexedDB unavailable'));
+    expect(await withCache(['k'], async () => 'value', STRING_CODEC)).toBe('value');
+    await flushWrites();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('does not cache failed computations', async () => {
+    await expect(withCache(['k'], async () => { throw new Error('boom'); }, STRING_CODEC)).rejects.toThrow('boom');
+    await flushWrites();
+    expect(entries.size).toBe(0);
+  });
+});
@@ -0,0 +1,133 @@
+import { STORES, openDatabase, requestToPromise, transactionDone } from "./idb";
+
+// Total size of cached payloads before least-recently-used entries are evicted
+export const MAX_CACHE_BYTES = 200 * 1024 * 1024;
+
+interface CacheEntry {
+  key: string;
+  value: string;
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+/** SHA-256 over the given parts, hex encoded. Parts are length-prefixed so boundaries can't collide. */
+export const hashKey = async (parts: string[]): Promise<string> => {
+  const encoded = new TextEncoder().encode(parts.map(p => `${p.length}:${p}`).join('|'));
+  const digest = await crypto.subtle.digest('SHA-256', encoded);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const getCached = async (key: string): Promise<string | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.RESULT_CACHE, 'readwrite');
+  const store = tx.objectStore(STORES.RESULT_CACHE);
+  const entry = await requestToPromise<CacheEntry | undefined>(store.get(key));
+  if (entry) store.put({ ...entry, lastAccess: Date.now() });
+  await transactionDone(tx);
+  return entry ? entry.value : null;
+};
+
+// Walks entries newest-first and deletes everything past the byte budget
+const evict = async (db: IDBDatabase) => {
+  const tx = db.transaction(STORES.RESULT_CACHE, 'readwrite');
+  const index = tx.objectStore(STORES.RESULT_CACHE).index('lastAccess');
+  let total = 0;
+  await new Promise<void>((resolve, reject) => {
+    const cursorRequest = index.openCursor(null, 'prev');
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      total += (cursor.value as CacheEntry).size;
+      if (total > MAX_CACHE_BYTES) cursor.delete();
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+  await transactionDone(tx);
+};
+
+export const putCached = async (key: string, value: string) => {
+  const db = await openDatabase();
+  const now = Date.now();
+  const entry: CacheEntry = { key, value, size: value.length, createdAt: now, lastAccess: now };
+  const tx = db.transaction(STORES.RESULT_CACHE, 'readwrite');
+  tx.objectStore(STORES.RESULT_CACHE).put(entry);
+  await transactionDone(tx);
+  await evict(db);
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.RESULT_CACHE, 'readonly');
+  const stats: CacheStats = { entries: 0, bytes: 0 };
+  await new Promise<void>((resolve, reject) => {
+    const cursorRequest = tx.objectStore(STORES.RESULT_CACHE).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      stats.entries++;
+      stats.bytes += (cursor.value as CacheEntry).size;
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+  return stats;
+};
+
+export const clearCache = async () => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.RESULT_CACHE, 'readwrite');
+  tx.objectStore(STORES.RESULT_CACHE).clear();
+  await transactionDone(tx);
+};
+
+export const STRING_CODEC = {
+  serialize: (value: string) => value,
+  deserialize: (raw: string) => raw,
+};
+
+export const JSON_CODEC = {
+  serialize: (value: unknown) => JSON.stringify(value),
+  deserialize: (raw: string) => JSON.parse(raw),
+};
+
+/**
+ * Returns the cached value for `keyParts`, or runs `compute` and stores its result.
+ * Cache errors (private mode, quota) never fail the call itself.
+ */
+export const withCache = async <T>(
+  keyParts: string[],
+  compute: () => Promise<T>,
+  codec: { serialize: (value: T) => string; deserialize: (raw: string) => T },
+  forceFresh: boolean = false
+): Promise<T> => {
+  let key: string | null = null;
+  try {
+    key = await hashKey(keyParts);
+    if (!forceFresh) {
+      const hit = await getCached(key);
+      if (hit !== null) return codec.deserialize(hit);
+    }
+  } catch (e) {
+    console.warn("Result cache unavailable", e);
+  }
+
+  const value = await compute();
+
+  if (key) {
+    putCached(key, codec.serialize(value)).catch(e => console.warn("Unable to write result cache", e));
+  }
+  return value;
+};
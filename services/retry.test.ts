@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AIError, AIErrorKind } from './aiErrors';
+import { sleep, withRetry } from './retry';
+
+const networkError = () => new AIError(AIErrorKind.NETWORK);
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('returns the first successful result without waiting', async () => {
+    const task = vi.fn().mockResolvedValue('ok');
+    await expect(withRetry(task)).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries transient errors with exponential backoff and equal jitter', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const task = vi.fn()
+      .mockRejectedValueOnce(networkError())
+      .mockRejectedValueOnce(networkError())
+      .mockResolvedValue('ok');
+    const result = withRetry(task, undefined, { retries: 2, baseDelayMs: 1000, maxDelayMs: 8000 });
+
+    // With no jitter the waits are half of 1000 and 2000
+    await vi.advanceTimersByTimeAsync(499);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(3);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('caps the backoff at maxDelayMs', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.9999);
+    const task = vi.fn().mockRejectedValueOnce(networkError()).mockResolvedValue('ok');
+    const result = withRetry(task, undefined, { retries: 1, baseDelayMs: 10_000, maxDelayMs: 2000 });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('gives up after the configured retries', async () => {
+    const task = vi.fn().mockRejectedValue(networkError());
+    const result = withRetry(task, undefined, { retries: 2 });
+    const assertion = expect(result).rejects.toMatchObject({ kind: AIErrorKind.NETWORK });
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry permanent errors', async () => {
+    const task = vi.fn().mockRejectedValue(Object.assign(new Error('denied'), { status: 401 }));
+    await expect(withRetry(task)).rejects.toMatchObject({ kind: AIErrorKind.INVALID_KEY });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(networkError());
+    const result = withRetry(task, controller.signal);
+    const assertion = expect(result).rejects.toMatchObject({ kind: AIErrorKind.CANCELLED });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await assertion;
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('sleep', () => {
+  it('rejects immediately for an already aborted signal', async () => {
+    await expect(sleep(1000, AbortSignal.abort())).rejects.toMatchObject({ kind: AIErrorKind.CANCELLED });
+  });
+});
@@ -0,0 +1,70 @@
+import { AIError, AIErrorKind, isTransient, toAIError } from "./aiErrors";
+
+export interface RetryOptions {
+  // Extra attempts after the first one
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new AIError(AIErrorKind.CANCELLED);
+};
+
+// setTimeout that rejects with a CANCELLED error as soon as the signal fires
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AIError(AIErrorKind.CANCELLED));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AIError(AIErrorKind.CANCELLED));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Exponential backoff with "equal jitter" (half fixed, half random): a guaranteed
+// minimum wait, yet parallel tabs don't retry in lockstep
+const backoffDelay = (attempt: number, options: RetryOptions): number => {
+  const cap = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt));
+  return Math.round(cap / 2 + Math.random() * (cap / 2));
+};
+
+/**
+ * Runs `task`, retrying transient AI errors (network, rate limit, empty output)
+ * with exponential backoff. Aborting the signal stops both the call and the wait.
+ */
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  signal?: AbortSignal,
+  options: Partial<RetryOptions> = {}
+): Promise<T> => {
+  const resolved: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await task();
+    } catch (err) {
+      const error = signal?.aborted ? new AIError(AIErrorKind.CANCELLED) : toAIError(err);
+      if (!isTransient(error) || attempt >= resolved.retries) throw error;
+
+      const wait = backoffDelay(attempt, resolved);
+      console.warn(`Transient AI error (${error.kind}), retrying in ${wait}ms`, error.detail);
+      await sleep(wait, signal);
+    }
+  }
+};
@@ -0,0 +1,54 @@
+const STORAGE_KEY = 'magic-zheng:settings';
+
+export const DEFAULT_MODEL = 'gemini-2.5-flash-image';
+
+export interface AISettings {
+  apiKey: string;
+  model: string;
+  // Optional custom base URL (proxy / gateway); empty uses the SDK default
+  endpoint: string;
+}
+
+const EMPTY_SETTINGS: AISettings = { apiKey: '', model: '', endpoint: '' };
+
+/** Values the user saved in this browser, unresolved (empty means "use default") */
+export const loadStoredSettings = (): AISettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return { ...EMPTY_SETTINGS, ...JSON.parse(raw) };
+  } catch (e) {
+    console.warn("Unable to read settings", e);
+  }
+  return { ...EMPTY_SETTINGS };
+};
+
+export const saveStoredSettings = (settings: AISettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({
+    apiKey: settings.apiKey.trim(),
+    model: settings.model.trim(),
+    endpoint: settings.endpoint.trim(),
+  }));
+};
+
+export const readUrlKey = (): string => {
+  try {
+    const params = new URLSearchParams(window.location.search);
+    return params.get('key') || params.get('API_KEY') || '';
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Effective settings for the next call. Resolved every time so a key saved
+ * in the settings panel takes effect without reloading.
+ * Key priority: saved in browser > ?key= URL parameter. No key is ever built into the bundle.
+ */
+export const resolveSettings = (): AISettings => {
+  const stored = loadStoredSettings();
+  return {
+    apiKey: stored.apiKey || readUrlKey(),
+    model: stored.model || DEFAULT_MODEL,
+    endpoint: stored.endpoint,
+  };
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  STORYBOARD_SHOT_COUNT,
+  extractJson,
+  parseShotReply,
+  parseStoryboardReply,
+  validateStoryboardShot,
+} from './storyboardSchema';
+
+const shot = (id: number) => ({
+  id,
+  shotTypeCn: '特写',
+  shotTypeEn: 'Close-up',
+  contentCn: `镜头 ${id}`,
+  contentEn: `Shot ${id}`,
+});
+
+const storyboard = (shotCount = STORYBOARD_SHOT_COUNT) => ({
+  mainPromptCn: '主提示词',
+  mainPromptEn: 'Main prompt',
+  shots: Array.from({ length: shotCount }, (_, i) => shot(i + 1)),
+});
+
+describe('extractJson', () => {
+  it('parses a clean reply without marking it trimmed', () => {
+    expect(extractJson('{"a":1}')).toEqual({ json: { a: 1 }, trimmed: false });
+  });
+
+  it('strips fences and surrounding prose', () => {
+    const reply = 'Here you go:\n```json\n{"a":{"b":"}"}}\n```\nEnjoy!';
+    expect(extractJson(reply)).toEqual({ json: { a: { b: '}' } }, trimmed: true });
+  });
+
+  it('removes trailing commas but keeps commas inside strings', () => {
+    const reply = '{"list":[1,2,],"text":"a,]",}';
+    expect(extractJson(reply)).toEqual({ json: { list: [1, 2], text: 'a,]' }, trimmed: true });
+  });
+
+  it('returns null when there is no object or it is unbalanced', () => {
+    expect(extractJson('no json here')).toBeNull();
+    expect(extractJson('{"a": 1')).toBeNull();
+  });
+});
+
+describe('validateStoryboardShot', () => {
+  it('forces the expected id and flags the repair', () => {
+    const result = validateStoryboardShot({ ...shot(7), id: '2' }, 3);
+    expect(result.value?.id).toBe(3);
+    expect(result.repaired).toBe(true);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('reports a missing Chinese shot type instead of copying the English one', () => {
+    const { shotTypeCn: _, ...withoutCn } = shot(1);
+    const result = validateStoryboardShot(withoutCn, 1);
+    expect(result.value).toBeNull();
+    expect(result.errors).toEqual(['shot.shotTypeCn is missing or empty']);
+  });
+
+  it('rejects blank fields and non-objects', () => {
+    expect(validateStoryboardShot({ ...shot(1), contentEn: '   ' }, 1).errors).toEqual(['shot.contentEn is missing or empty']);
+    expect(validateStoryboardShot([], 1).errors).toEqual(['shot must be a JSON object']);
+  });
+});
+
+describe('parseStoryboardReply', () => {
+  it('accepts a complete storyboard', () => {
+    const result = parseStoryboardReply(JSON.stringify(storyboard()));
+    expect(result.errors).toEqual([]);
+    expect(result.repaired).toBe(false);
+    expect(result.value?.shots.map(s => s.id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('drops extra shots as a repair', () => {
+    const result = parseStoryboardReply(JSON.stringify(storyboard(11)));
+    expect(result.value?.shots).toHaveLength(STORYBOARD_SHOT_COUNT);
+    expect(result.repaired).toBe(true);
+  });
+
+  it('reports missing shots and prompts', () => {
+    const { mainPromptEn: _, ...data } = storyboard(8);
+    const result = parseStoryboardReply(JSON.stringify(data));
+    expect(result.value).toBeNull();
+    expect(result.errors).toEqual([
+      'mainPromptEn is missing or empty',
+      'shots must contain exactly 9 items, got 8',
+    ]);
+  });
+});
+
+describe('parseShotReply', () => {
+  it('reports replies without JSON', () => {
+    expect(parseShotReply('Sorry, I cannot help.', 1).errors).toEqual(['Reply does not contain a valid JSON object']);
+  });
+
+  it('accepts a fenced reply as is but counts dropped prose as a repair', () => {
+    const fenced = parseShotReply('```json\n' + JSON.stringify(shot(4)) + '\n```', 4);
+    expect(fenced.value?.contentEn).toBe('Shot 4');
+    expect(fenced.repaired).toBe(false);
+    expect(parseShotReply('Sure! ' + JSON.stringify(shot(4)), 4).repaired).toBe(true);
+  });
+});
@@ -0,0 +1,193 @@
+import { StoryboardData, StoryboardShot } from "../types";
+
+export const STORYBOARD_SHOT_COUNT = 9;
+
+export interface ValidationResult<T> {
+  value: T | null;
+  errors: string[];
+  // True when defects were fixed locally (prose, trailing commas, ids, extra shots);
+  // a ```json fence alone is an accepted reply format, not a defect
+  repaired: boolean;
+}
+
+const REQUIRED_SHOT_FIELDS = ['shotTypeCn', 'shotTypeEn', 'contentCn', 'contentEn'] as const;
+
+// Drops commas directly before a closing } or ], the most common syntax slip.
+// Commas inside string values (e.g. ",]" in a shot description) are left alone.
+const stripTrailingCommas = (json: string): string => {
+  let out = '';
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < json.length; i++) {
+    const ch = json[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === ',' && /^\s*[}\]]/.test(json.slice(i + 1))) {
+      continue;
+    }
+    out += ch;
+  }
+  return out;
+};
+
+const tryParse = (json: string): { ok: true; value: unknown } | { ok: false } => {
+  try {
+    return { ok: true, value: JSON.parse(json) };
+  } catch {
+    return { ok: false };
+  }
+};
+
+/**
+ * Pulls the first balanced JSON object out of a model reply,
+ * tolerating ```json fences and prose before or after it.
+ */
+export const extractJson = (text: string): { json: unknown; trimmed: boolean } | null => {
+  const unfenced = text.replace(/```json/gi, '').replace(/```/g, '').trim();
+  const start = unfenced.indexOf('{');
+  if (start < 0) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < unfenced.length; i++) {
+    const ch = unfenced[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') depth++;
+    else if (ch === '}') {
+      depth--;
+      if (depth === 0) {
+        const candidate = unfenced.slice(start, i + 1);
+        // Only repair what doesn't already parse
+        const parsed = tryParse(candidate);
+        if (parsed.ok) return { json: parsed.value, trimmed: candidate !== unfenced };
+        const cleaned = stripTrailingCommas(candidate);
+        const repaired = tryParse(cleaned);
+        return repaired.ok ? { json: repaired.value, trimmed: true } : null;
+      }
+    }
+  }
+  return null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readString = (value: unknown): string | null => {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number') return String(value);
+  return null;
+};
+
+/**
+ * Validates one shot object. `expectedId` forces the id (repairing it when wrong or missing).
+ */
+export const validateStoryboardShot = (
+  raw: unknown,
+  expectedId: number,
+  path: string = 'shot'
+): ValidationResult<StoryboardShot> => {
+  if (!isRecord(raw)) {
+    return { value: null, errors: [`${path} must be a JSON object`], repaired: false };
+  }
+
+  const errors: string[] = [];
+  let repaired = false;
+
+  const id = Number(raw.id);
+  if (id !== expectedId) repaired = true;
+
+  const fields: Partial<Record<typeof REQUIRED_SHOT_FIELDS[number], string>> = {};
+  REQUIRED_SHOT_FIELDS.forEach(field => {
+    const value = readString(raw[field]);
+    if (value !== null) fields[field] = value;
+  });
+
+  REQUIRED_SHOT_FIELDS.forEach(field => {
+    if (!fields[field]) errors.push(`${path}.${field} is missing or empty`);
+  });
+
+  if (errors.length > 0) return { value: null, errors, repaired };
+
+  return {
+    value: {
+      id: expectedId,
+      shotTypeCn: fields.shotTypeCn!,
+      shotTypeEn: fields.shotTypeEn!,
+      contentCn: fields.contentCn!,
+      contentEn: fields.contentEn!,
+    },
+    errors,
+    repaired,
+  };
+};
+
+/**
+ * Validates a full storyboard: both main prompts plus exactly 9 shots with ids 1..9.
+ * Extra shots are dropped; missing ones are reported as errors.
+ */
+export const validateStoryboardData = (raw: unknown): ValidationResult<StoryboardData> => {
+  if (!isRecord(raw)) {
+    return { value: null, errors: ['Reply must be a JSON object'], repaired: false };
+  }
+
+  const errors: string[] = [];
+  let repaired = false;
+
+  const mainPromptCn = readString(raw.mainPromptCn);
+  const mainPromptEn = readString(raw.mainPromptEn);
+  if (!mainPromptCn) errors.push('mainPromptCn is missing or empty');
+  if (!mainPromptEn) errors.push('mainPromptEn is missing or empty');
+
+  const rawShots = Array.isArray(raw.shots) ? raw.shots : null;
+  if (!rawShots) {
+    errors.push('shots must be an array');
+    return { value: null, errors, repaired };
+  }
+
+  if (rawShots.length > STORYBOARD_SHOT_COUNT) repaired = true;
+  if (rawShots.length < STORYBOARD_SHOT_COUNT) {
+    errors.push(`shots must contain exactly ${STORYBOARD_SHOT_COUNT} items, got ${rawShots.length}`);
+  }
+
+  const shots: StoryboardShot[] = [];
+  rawShots.slice(0, STORYBOARD_SHOT_COUNT).forEach((rawShot, i) => {
+    const result = validateStoryboardShot(rawShot, i + 1, `shots[${i}]`);
+    repaired = repaired || result.repaired;
+    if (result.value) shots.push(result.value);
+    else errors.push(...result.errors);
+  });
+
+  if (errors.length > 0) return { value: null, errors, repaired };
+
+  return {
+    value: { mainPromptCn: mainPromptCn!, mainPromptEn: mainPromptEn!, shots },
+    errors,
+    repaired,
+  };
+};
+
+// Parses raw model text and validates it in one step
+export const parseStoryboardReply = (text: string): ValidationResult<StoryboardData> => {
+  const extracted = extractJson(text);
+  if (!extracted) return { value: null, errors: ['Reply does not contain a valid JSON object'], repaired: false };
+  const result = validateStoryboardData(extracted.json);
+  return { ...result, repaired: result.repaired || extracted.trimmed };
+};
+
+export const parseShotReply = (text: string, expectedId: number): ValidationResult<StoryboardShot> => {
+  const extracted = extractJson(text);
+  if (!extracted) return { value: null, errors: ['Reply does not contain a valid JSON object'], repaired: false };
+  const result = validateStoryboardShot(extracted.json, expectedId);
+  return { ...result, repaired: result.repaired || extracted.trimmed };
+};
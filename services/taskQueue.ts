@@ -0,0 +1,19 @@
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight, in order.
+ * Once `signal` aborts no further items are started; in-flight ones are left
+ * to observe the signal themselves. The worker is expected to handle its own errors.
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      await worker(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane));
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { UsageEntry, estimateCost, summarizeByDay, toCsv } from './usageLedger';
+
+const at = (day: number, hour: number) => new Date(2025, 2, day, hour).getTime();
+
+const entry = (overrides: Partial<UsageEntry> = {}): UsageEntry => ({
+  tool: 'watermark',
+  providerId: 'gemini',
+  model: 'gemini-2.5-flash',
+  startedAt: at(3, 10),
+  finishedAt: at(3, 10) + 1000,
+  bytesSent: 100,
+  promptTokens: 1_000_000,
+  outputTokens: 0,
+  outcome: 'success',
+  ...overrides,
+});
+
+describe('estimateCost', () => {
+  it('prices tokens by model and ignores unknown models and the mock provider', () => {
+    expect(estimateCost(entry({ outputTokens: 1_000_000 }))).toBeCloseTo(2.8);
+    expect(estimateCost(entry({ model: 'unknown' }))).toBe(0);
+    expect(estimateCost(entry({ providerId: 'mock' }))).toBe(0);
+  });
+});
+
+describe('summarizeByDay', () => {
+  it('totals per local day, newest first', () => {
+    const days = summarizeByDay([
+      entry(),
+      entry({ startedAt: at(3, 23), finishedAt: at(3, 23) + 3000, outcome: 'error', promptTokens: undefined }),
+      entry({ startedAt: at(4, 0), finishedAt: at(4, 0) + 500 }),
+    ]);
+    expect(days.map(d => d.day)).toEqual(['2025-03-04', '2025-03-03']);
+    expect(days[1]).toMatchObject({ calls: 2, failures: 1, bytesSent: 200, promptTokens: 1_000_000, avgLatencyMs: 2000 });
+    expect(days[1].estimatedCostUsd).toBeCloseTo(0.3);
+  });
+});
+
+describe('toCsv', () => {
+  it('writes a header and quotes cells that need it', () => {
+    const [header, row] = toCsv([entry({ model: 'a,"b"', errorKind: undefined })]).split('\n');
+    expect(header.split(',')).toHaveLength(13);
+    expect(row).toContain(',"a,""b""",');
+    expect(row.endsWith(',success,,0.000000')).toBe(true);
+  });
+});
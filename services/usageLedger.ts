@@ -0,0 +1,150 @@
+import { STORES, openDatabase, requestToPromise, transactionDone } from "./idb";
+import { AIErrorKind, toAIError } from "./aiErrors";
+import { TokenUsage } from "./aiProvider";
+
+export type UsageTool = 'watermark' | 'storyboard' | 'shot';
+
+export type UsageOutcome = 'success' | 'error' | 'cancelled';
+
+export interface UsageEntry {
+  id?: number;
+  tool: UsageTool;
+  providerId: string;
+  model: string;
+  startedAt: number;
+  finishedAt: number;
+  // Base64 payload plus prompt text, i.e. roughly what went over the wire
+  bytesSent: number;
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+  outcome: UsageOutcome;
+  errorKind?: AIErrorKind;
+}
+
+export interface DailyUsage {
+  day: string;
+  calls: number;
+  failures: number;
+  bytesSent: number;
+  promptTokens: number;
+  outputTokens: number;
+  avgLatencyMs: number;
+  estimatedCostUsd: number;
+}
+
+// USD per 1M tokens. Public list prices; only used for rough estimates.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash-image': { input: 0.3, output: 30 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+};
+
+export const estimateCost = (entry: UsageEntry): number => {
+  if (entry.providerId === 'mock') return 0;
+  const price = MODEL_PRICING[entry.model];
+  if (!price) return 0;
+  return ((entry.promptTokens || 0) * price.input + (entry.outputTokens || 0) * price.output) / 1_000_000;
+};
+
+export const recordUsage = async (entry: UsageEntry) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.USAGE_LEDGER, 'readwrite');
+  tx.objectStore(STORES.USAGE_LEDGER).add(entry);
+  await transactionDone(tx);
+};
+
+export const listUsage = async (): Promise<UsageEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.USAGE_LEDGER, 'readonly');
+  return requestToPromise<UsageEntry[]>(tx.objectStore(STORES.USAGE_LEDGER).index('startedAt').getAll());
+};
+
+export const clearUsage = async () => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.USAGE_LEDGER, 'readwrite');
+  tx.objectStore(STORES.USAGE_LEDGER).clear();
+  await transactionDone(tx);
+};
+
+const localDay = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+/** Per-day totals in local time, newest day first */
+export const summarizeByDay = (entries: UsageEntry[]): DailyUsage[] => {
+  const days = new Map<string, DailyUsage & { totalLatency: number }>();
+  entries.forEach(entry => {
+    const day = localDay(entry.startedAt);
+    const row = days.get(day) || {
+      day, calls: 0, failures: 0, bytesSent: 0, promptTokens: 0, outputTokens: 0,
+      avgLatencyMs: 0, estimatedCostUsd: 0, totalLatency: 0,
+    };
+    row.calls++;
+    if (entry.outcome === 'error') row.failures++;
+    row.bytesSent += entry.bytesSent;
+    row.promptTokens += entry.promptTokens || 0;
+    row.outputTokens += entry.outputTokens || 0;
+    row.estimatedCostUsd += estimateCost(entry);
+    row.totalLatency += entry.finishedAt - entry.startedAt;
+    days.set(day, row);
+  });
+  return Array.from(days.values())
+    .map(({ totalLatency, ...row }) => ({ ...row, avgLatencyMs: row.calls ? totalLatency / row.calls : 0 }))
+    .sort((a, b) => b.day.localeCompare(a.day));
+};
+
+const CSV_COLUMNS = [
+  'startedAt', 'finishedAt', 'latencyMs', 'tool', 'provider', 'model', 'bytesSent',
+  'promptTokens', 'outputTokens', 'totalTokens', 'outcome', 'errorKind', 'estimatedCostUsd',
+];
+
+const csvCell = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (entries: UsageEntry[]): string => {
+  const rows = entries.map(e => [
+    new Date(e.startedAt).toISOString(),
+    new Date(e.finishedAt).toISOString(),
+    e.finishedAt - e.startedAt,
+    e.tool,
+    e.providerId,
+    e.model,
+    e.bytesSent,
+    e.promptTokens,
+    e.outputTokens,
+    e.totalTokens,
+    e.outcome,
+    e.errorKind,
+    estimateCost(e).toFixed(6),
+  ].map(csvCell).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+/**
+ * Times one provider call and appends it to the ledger whatever the outcome.
+ * Ledger failures are logged and never affect the call.
+ */
+export const trackUsage = async <T>(
+  meta: { tool: UsageTool; providerId: string; model: string; bytesSent: number },
+  call: () => Promise<{ value: T; usage?: TokenUsage }>
+): Promise<T> => {
+  const startedAt = Date.now();
+  const save = (entry: Omit<UsageEntry, 'tool' | 'providerId' | 'model' | 'bytesSent' | 'startedAt' | 'finishedAt'>) => {
+    recordUsage({ ...meta, startedAt, finishedAt: Date.now(), ...entry })
+      .catch(e => console.warn("Unable to record usage", e));
+  };
+
+  try {
+    const result = await call();
+    save({ outcome: 'success', ...result.usage });
+    return result.value;
+  } catch (error) {
+    const kind = toAIError(error).kind;
+    save({ outcome: kind === AIErrorKind.CANCELLED ? 'cancelled' : 'error', errorKind: kind });
+    throw error;
+  }
+};
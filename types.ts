@@ -4,16 +4,50 @@ export type Point = {
   y: number;
 };
 
+export enum StrokeShape {
+  FREEHAND = 'FREEHAND', // Polyline stroked with `size`
+  RECT = 'RECT',         // Filled box spanned by points[0] and points[1]
+  ELLIPSE = 'ELLIPSE',   // Filled ellipse inscribed in that box
+  POLYGON = 'POLYGON',   // Filled closed path through all points (lasso / polygon)
+  REGION = 'REGION',     // Pixel selection stored in `region` (magic wand)
+}
+
+/** Binary pixel selection cropped to its bounding box, in image coordinates */
+export interface MaskRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  bits: Uint8Array; // One byte per pixel, 0 or 1, row-major
+}
+
 export type Stroke = {
   points: Point[];
   size: number;
+  widths?: number[];   // Per-point diameters (pen pressure); overrides `size` for FREEHAND
+  shape?: StrokeShape; // Defaults to FREEHAND
+  erase?: boolean;     // Subtracts from the mask instead of adding
+  region?: MaskRegion; // Set for REGION strokes
 };
 
 export enum ToolType {
   BRUSH = 'BRUSH',
+  ERASER = 'ERASER',
+  RECT = 'RECT',
+  ELLIPSE = 'ELLIPSE',
+  LASSO = 'LASSO',
+  POLYGON = 'POLYGON',
+  WAND = 'WAND',
   HAND = 'HAND',
 }
 
+// How the mask is shown over the photo in the editor
+export enum MaskViewMode {
+  OVERLAY = 'OVERLAY',
+  MASK_ONLY = 'MASK_ONLY',
+  HIDDEN = 'HIDDEN',
+}
+
 export enum AppState {
   UPLOAD = 'UPLOAD',
   EDIT = 'EDIT',
@@ -21,9 +55,22 @@ export enum AppState {
   COMPARE = 'COMPARE',
 }
 
+export enum FillMode {
+  REMOVE = 'REMOVE',         // Replace the masked area with background
+  GENERATIVE = 'GENERATIVE', // Fill it with what the user described
+}
+
+/** How a watermark-mode result was produced */
+export interface InpaintRunInfo {
+  mode: FillMode;
+  instruction: string;
+  templateId: string;
+}
+
 export enum AppMode {
   HOME = 'HOME',
   WATERMARK = 'WATERMARK',
+  BATCH = 'BATCH',
   STORYBOARD = 'STORYBOARD',
   SPLITTER = 'SPLITTER',
 }
@@ -33,6 +80,13 @@ export interface ImageDimensions {
   height: number;
 }
 
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface StoryboardShot {
   id: number;
   shotTypeCn: string;
@@ -0,0 +1,60 @@
+import { createCanvas, loadImage } from "./imageUtils";
+
+// Channel differences at or below this count as unchanged. Zero, since compositing
+// keeps every pixel outside the mask identical: even a one-level shift (such as
+// colour matching) is an edit worth seeing
+const NOISE_THRESHOLD = 0;
+// Difference at which the heat colour saturates
+const FULL_HEAT = 96;
+// Brightness of the greyscale backdrop behind the heat
+const BACKDROP_LEVEL = 0.35;
+
+export interface DiffHeatmap {
+  // Object URL of the heatmap PNG; revoke when done
+  url: string;
+  // Fraction of pixels that changed beyond the noise threshold
+  changedRatio: number;
+}
+
+const toBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("差异图生成失败")), 'image/png'));
+
+/**
+ * Highlights every pixel `processed` changed relative to `original`: a dimmed greyscale
+ * copy of the original with changes painted from red (small) to yellow (large).
+ * The processed image is scaled to the original's resolution first.
+ */
+export const computeDiffHeatmap = async (originalSrc: string, processedSrc: string): Promise<DiffHeatmap> => {
+  const [original, processed] = await Promise.all([loadImage(originalSrc), loadImage(processedSrc)]);
+  const { width, height } = original;
+
+  const a = createCanvas(width, height);
+  a.ctx.drawImage(original, 0, 0);
+  const b = createCanvas(width, height);
+  b.ctx.drawImage(processed, 0, 0, width, height);
+
+  const before = a.ctx.getImageData(0, 0, width, height);
+  const after = b.ctx.getImageData(0, 0, width, height).data;
+  const data = before.data;
+  let changed = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const diff = Math.max(Math.abs(data[i] - after[i]), Math.abs(data[i + 1] - after[i + 1]), Math.abs(data[i + 2] - after[i + 2]));
+    const grey = (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) * BACKDROP_LEVEL;
+    if (diff <= NOISE_THRESHOLD) {
+      data[i] = data[i + 1] = data[i + 2] = grey;
+    } else {
+      changed++;
+      const heat = Math.min(1, (diff - NOISE_THRESHOLD) / (FULL_HEAT - NOISE_THRESHOLD));
+      const alpha = 0.6 + 0.4 * heat;
+      data[i] = grey + (255 - grey) * alpha;
+      data[i + 1] = grey + (255 * heat - grey) * alpha;
+      data[i + 2] = grey * (1 - alpha);
+    }
+    data[i + 3] = 255;
+  }
+
+  a.ctx.putImageData(before, 0, 0);
+  const blob = await toBlob(a.canvas);
+  return { url: URL.createObjectURL(blob), changedRatio: changed / (width * height) };
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { padRect, planTiles, unionRects } from './imageUtils';
+
+describe('planTiles', () => {
+  it('returns the region itself when it fits', () => {
+    expect(planTiles({ x: 5, y: 6, width: 100, height: 80 }, 100, 16)).toEqual([{ x: 5, y: 6, width: 100, height: 80 }]);
+  });
+
+  it('covers a large region with overlapping tiles of at most maxSize', () => {
+    const region = { x: 10, y: 20, width: 250, height: 90 };
+    const tiles = planTiles(region, 100, 20);
+    expect(tiles).toHaveLength(3);
+    expect(tiles[0]).toEqual({ x: 10, y: 20, width: 100, height: 90 });
+    expect(tiles[2].x + tiles[2].width).toBe(region.x + region.width);
+    for (let i = 1; i < tiles.length; i++) {
+      expect(tiles[i - 1].x + tiles[i - 1].width - tiles[i].x).toBeGreaterThanOrEqual(20);
+    }
+  });
+
+  it('lays tiles out row by row', () => {
+    const tiles = planTiles({ x: 0, y: 0, width: 150, height: 150 }, 100, 10);
+    expect(tiles.map(t => [t.x, t.y])).toEqual([[0, 0], [50, 0], [0, 50], [50, 50]]);
+  });
+});
+
+describe('padRect', () => {
+  it('pads on every side and clamps to the bounds', () => {
+    expect(padRect({ x: 2, y: 50, width: 10, height: 10 }, 5, { width: 64, height: 62 })).toEqual({ x: 0, y: 45, width: 17, height: 17 });
+  });
+});
+
+describe('unionRects', () => {
+  it('spans every rect and skips nulls', () => {
+    expect(unionRects([null, { x: 4, y: 2, width: 2, height: 2 }, { x: 1, y: 5, width: 2, height: 4 }])).toEqual({ x: 1, y: 2, width: 5, height: 7 });
+    expect(unionRects([null])).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import { ImageDimensions, Point, Rect } from "../types";
+
+// Loads an image source (data URL or object URL) into a decoded HTMLImageElement
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("图片加载失败"));
+    img.src = src;
+  });
+};
+
+export const toDataURL = (image: { mimeType: string; data: string }): string =>
+  `data:${image.mimeType};base64,${image.data}`;
+
+export const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 不可用");
+  return { canvas, ctx };
+};
+
+/**
+ * Bounding box of all "on" pixels (red channel > 127) of a black/white mask,
+ * or null when the mask is empty.
+ */
+export const getMaskBoundingBox = (mask: ImageData, threshold = 127): Rect | null => {
+  const { width, height, data } = mask;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4] > threshold) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+// Mean position of the mask's white pixels, or null when the mask is empty
+export const getMaskCentroid = (mask: ImageData): Point | null => {
+  const { width, height, data } = mask;
+  let sumX = 0, sumY = 0, count = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4] > 127) {
+        sumX += x;
+        sumY += y;
+        count++;
+      }
+    }
+  }
+  return count ? { x: sumX / count, y: sumY / count } : null;
+};
+
+// Smallest rect containing every given rect; nulls are skipped
+export const unionRects = (rects: (Rect | null)[]): Rect | null =>
+  rects.reduce<Rect | null>((acc, rect) => {
+    if (!rect) return acc;
+    if (!acc) return rect;
+    const x = Math.min(acc.x, rect.x);
+    const y = Math.min(acc.y, rect.y);
+    return {
+      x,
+      y,
+      width: Math.max(acc.x + acc.width, rect.x + rect.width) - x,
+      height: Math.max(acc.y + acc.height, rect.y + rect.height) - y,
+    };
+  }, null);
+
+// Grows a rect by `padding` on every side, clamped to the image bounds
+export const padRect = (rect: Rect, padding: number, bounds: ImageDimensions): Rect => {
+  const x = Math.max(0, rect.x - padding);
+  const y = Math.max(0, rect.y - padding);
+  const right = Math.min(bounds.width, rect.x + rect.width + padding);
+  const bottom = Math.min(bounds.height, rect.y + rect.height + padding);
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+/**
+ * Splits `region` into tiles no larger than `maxSize`, overlapping by `overlap`
+ * pixels so seams can be blended. Tiles are returned row by row.
+ */
+export const planTiles = (region: Rect, maxSize: number, overlap: number): Rect[] => {
+  const axis = (start: number, length: number): { start: number; length: number }[] => {
+    if (length <= maxSize) return [{ start, length }];
+    const count = Math.ceil((length - overlap) / (maxSize - overlap));
+    const step = (length - maxSize) / (count - 1);
+    return Array.from({ length: count }, (_, i) => ({ start: start + Math.round(i * step), length: maxSize }));
+  };
+
+  const tiles: Rect[] = [];
+  axis(region.y, region.height).forEach(row => {
+    axis(region.x, region.width).forEach(col => {
+      tiles.push({ x: col.start, y: row.start, width: col.length, height: row.length });
+    });
+  });
+  return tiles;
+};
+
+// Encodes a region of a canvas or image at native resolution
+export const cropToDataURL = (
+  source: CanvasImageSource,
+  rect: Rect,
+  format: 'image/png' | 'image/jpeg' = 'image/png',
+  quality?: number
+): string => {
+  const { canvas, ctx } = createCanvas(rect.width, rect.height);
+  ctx.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+  return canvas.toDataURL(format, quality);
+};
@@ -0,0 +1,78 @@
+import { MaskRegion, Point } from "../types";
+import { cropToRegion, growShrink } from "./maskMorphology";
+
+export interface WandOptions {
+  tolerance: number;   // 0-255, max per-channel difference from the seed colour
+  contiguous: boolean; // Flood-fill from the seed, or select every similar pixel
+  grow: number;        // Pixels to grow (> 0) or shrink (< 0) the selection by
+}
+
+export const DEFAULT_WAND_OPTIONS: WandOptions = {
+  tolerance: 32,
+  contiguous: true,
+  grow: 2,
+};
+
+const isSimilar = (data: Uint8ClampedArray, i: number, r: number, g: number, b: number, tolerance: number) =>
+  Math.abs(data[i] - r) <= tolerance &&
+  Math.abs(data[i + 1] - g) <= tolerance &&
+  Math.abs(data[i + 2] - b) <= tolerance;
+
+// Binary mask of pixels similar to the seed, 4-connected when contiguous
+const selectSimilar = (image: ImageData, seedX: number, seedY: number, tolerance: number, contiguous: boolean): Uint8Array => {
+  const { width, height, data } = image;
+  const out = new Uint8Array(width * height);
+  const s = (seedY * width + seedX) * 4;
+  const [r, g, b] = [data[s], data[s + 1], data[s + 2]];
+
+  if (!contiguous) {
+    for (let i = 0; i < out.length; i++) {
+      if (isSimilar(data, i * 4, r, g, b, tolerance)) out[i] = 1;
+    }
+    return out;
+  }
+
+  // Scanline flood fill: fill whole horizontal runs, queue the rows above and below
+  const stack: number[] = [seedX, seedY];
+  while (stack.length) {
+    const y = stack.pop()!;
+    let x = stack.pop()!;
+    const row = y * width;
+    if (out[row + x] || !isSimilar(data, (row + x) * 4, r, g, b, tolerance)) continue;
+    while (x > 0 && !out[row + x - 1] && isSimilar(data, (row + x - 1) * 4, r, g, b, tolerance)) x--;
+    let above = false, below = false;
+    for (; x < width && !out[row + x] && isSimilar(data, (row + x) * 4, r, g, b, tolerance); x++) {
+      out[row + x] = 1;
+      if (y > 0) {
+        const hit = !out[row - width + x] && isSimilar(data, (row - width + x) * 4, r, g, b, tolerance);
+        if (hit && !above) stack.push(x, y - 1);
+        above = hit;
+      }
+      if (y < height - 1) {
+        const hit = !out[row + width + x] && isSimilar(data, (row + width + x) * 4, r, g, b, tolerance);
+        if (hit && !below) stack.push(x, y + 1);
+        below = hit;
+      }
+    }
+  }
+  return out;
+};
+
+/**
+ * Selects the pixels whose colour is within `tolerance` of the clicked pixel,
+ * then grows or shrinks the selection. Returns null when nothing remains.
+ */
+export const magicWandSelect = (image: ImageData, seed: Point, options: WandOptions): MaskRegion | null => {
+  const sx = Math.floor(seed.x), sy = Math.floor(seed.y);
+  if (sx < 0 || sy < 0 || sx >= image.width || sy >= image.height) return null;
+
+  const bits = selectSimilar(image, sx, sy, options.tolerance, options.contiguous);
+  // Work on the bounding box only; growing needs room around it, shrinking a 1px off border
+  const pad = options.grow === 0 ? 0 : Math.max(1, options.grow);
+  const region = cropToRegion(bits, image.width, image.height, pad);
+  if (!region || options.grow === 0) return region;
+
+  const morphed = growShrink(region.bits, region.width, region.height, options.grow);
+  const tight = cropToRegion(morphed, region.width, region.height, 0);
+  return tight && { ...tight, x: tight.x + region.x, y: tight.y + region.y };
+};
@@ -0,0 +1,71 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { compositeMasked } from './maskCompositor';
+
+const SIZE = 32;
+
+beforeAll(() => {
+  // Node has no canvas; compositing only needs the ImageData shape
+  vi.stubGlobal('ImageData', class {
+    constructor(public data: Uint8ClampedArray, public width: number, public height: number) {}
+  });
+});
+
+const image = (fill: (x: number, y: number) => [number, number, number]): ImageData => {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const p = (y * SIZE + x) * 4;
+      data.set([...fill(x, y), 255], p);
+    }
+  }
+  return { data, width: SIZE, height: SIZE } as ImageData;
+};
+
+const pixel = (img: ImageData, x: number, y: number) => Array.from(img.data.slice((y * SIZE + x) * 4, (y * SIZE + x) * 4 + 3));
+
+// A solid square mask covering [12, 20) on both axes
+const squareMask = (value = 255) => image((x, y) => (x >= 12 && x < 20 && y >= 12 && y < 20 ? [value, value, value] : [0, 0, 0]));
+
+const original = image((x, y) => [x * 4, y * 4, 100]);
+const generated = image(() => [250, 10, 10]);
+
+describe('compositeMasked', () => {
+  const options = { dilateRadius: 2, featherRadius: 4, colorMatch: false };
+
+  it('takes generated pixels inside the mask', () => {
+    const out = compositeMasked(original, generated, squareMask(), options);
+    expect(pixel(out, 15, 15)).toEqual([250, 10, 10]);
+  });
+
+  it('leaves every pixel outside the dilated, feathered mask untouched', () => {
+    const out = compositeMasked(original, generated, squareMask(), options);
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) {
+        const gap = Math.max(12 - x, x - 19, 12 - y, y - 19);
+        if (gap > 2 + 4) expect(pixel(out, x, y)).toEqual(pixel(original, x, y));
+      }
+    }
+  });
+
+  it('fades across the feather ramp', () => {
+    const out = compositeMasked(original, generated, squareMask(), options);
+    // Distance 2 from the mask is still fully generated, distance 4 is half way, 6 is original
+    expect(pixel(out, 21, 15)[0]).toBe(250);
+    expect(pixel(out, 23, 15)[0]).toBe(Math.round(92 * 0.5 + 250 * 0.5));
+    expect(pixel(out, 25, 15)).toEqual(pixel(original, 25, 15));
+  });
+
+  it('blends soft grey mask pixels by their brightness', () => {
+    // Below the solid threshold, so no dilate / feather ramp is built around it
+    const out = compositeMasked(original, generated, squareMask(100), options);
+    const weight = 100 / 255;
+    expect(pixel(out, 15, 15)[0]).toBe(Math.round(60 * (1 - weight) + 250 * weight));
+    expect(pixel(out, 5, 5)).toEqual(pixel(original, 5, 5));
+  });
+
+  it('removes a uniform colour shift when colour matching', () => {
+    const shifted = image((x, y) => [x * 4 + 20, y * 4 - 10, 110]);
+    const out = compositeMasked(original, shifted, squareMask(), { ...options, colorMatch: true });
+    expect(pixel(out, 15, 15)).toEqual(pixel(original, 15, 15));
+  });
+});
@@ -0,0 +1,73 @@
+import { featheredAlpha, toBinaryMask } from "./maskMorphology";
+
+export interface CompositeOptions {
+  // Grow the mask before blending so the model's fill covers the brushed edge
+  dilateRadius: number;
+  featherRadius: number;
+  // Shift the generated colours so they match the original around the seam
+  colorMatch: boolean;
+}
+
+export const DEFAULT_COMPOSITE_OPTIONS: CompositeOptions = {
+  dilateRadius: 4,
+  featherRadius: 8,
+  colorMatch: true,
+};
+
+// Width of the ring just outside the blend area used to measure colour drift
+const COLOR_SAMPLE_RING = 6;
+
+// Extra margin a caller must include around the mask bounds for compositing
+export const compositeMargin = (options: CompositeOptions) =>
+  Math.ceil(options.dilateRadius + options.featherRadius + COLOR_SAMPLE_RING) + 1;
+
+/**
+ * Blends `generated` into `original` only where the (dilated, feathered) mask
+ * is set. Grey mask pixels (a soft edge from mask refinement) blend by their
+ * brightness, on top of the dilate / feather ramp around the solid part.
+ * Pixels with zero weight are copied from `original` untouched.
+ * All three ImageData must share the same dimensions.
+ */
+export const compositeMasked = (
+  original: ImageData,
+  generated: ImageData,
+  mask: ImageData,
+  options: CompositeOptions = DEFAULT_COMPOSITE_OPTIONS
+): ImageData => {
+  const { width, height } = original;
+  const binary = toBinaryMask(mask);
+  const outer = options.dilateRadius + options.featherRadius;
+  const alpha = featheredAlpha(binary, width, height, options.dilateRadius, options.featherRadius);
+  // Union of the ramp and the mask's own coverage: 1 - (1 - ramp) * (1 - grey)
+  for (let i = 0; i < alpha.length; i++) {
+    const grey = mask.data[i * 4] / 255;
+    if (grey > 0) alpha[i] = 1 - (1 - alpha[i]) * (1 - grey);
+  }
+
+  // Mean colour offset between original and generated in a ring just outside
+  // the blend area, where both should show the same content.
+  const offset = [0, 0, 0];
+  if (options.colorMatch) {
+    const support = toBinaryMask(mask, 0);
+    const ring = featheredAlpha(support, width, height, outer + COLOR_SAMPLE_RING, 0);
+    let count = 0;
+    for (let i = 0; i < alpha.length; i++) {
+      if (ring[i] === 0 || alpha[i] > 0) continue;
+      for (let c = 0; c < 3; c++) offset[c] += original.data[i * 4 + c] - generated.data[i * 4 + c];
+      count++;
+    }
+    if (count > 0) for (let c = 0; c < 3; c++) offset[c] /= count;
+  }
+
+  const out = new ImageData(new Uint8ClampedArray(original.data), width, height);
+  for (let i = 0; i < alpha.length; i++) {
+    const a = alpha[i];
+    if (a === 0) continue;
+    const p = i * 4;
+    for (let c = 0; c < 3; c++) {
+      const gen = generated.data[p + c] + offset[c];
+      out.data[p + c] = Math.round(original.data[p + c] * (1 - a) + gen * a);
+    }
+  }
+  return out;
+};
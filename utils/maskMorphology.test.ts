@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { cropToRegion, distanceTransform, featheredAlpha, growShrink } from './maskMorphology';
+
+const W = 9;
+const H = 9;
+
+// Binary mask with the given pixels set
+const maskOf = (points: [number, number][]) => {
+  const mask = new Uint8Array(W * H);
+  points.forEach(([x, y]) => { mask[y * W + x] = 1; });
+  return mask;
+};
+
+const count = (mask: Uint8Array) => mask.reduce((sum, v) => sum + v, 0);
+
+describe('distanceTransform', () => {
+  it('measures axis and diagonal steps from the nearest on pixel', () => {
+    const dist = distanceTransform(maskOf([[4, 4]]), W, H);
+    expect(dist[4 * W + 4]).toBe(0);
+    expect(dist[4 * W + 7]).toBe(3);
+    expect(dist[6 * W + 6]).toBeCloseTo(2 * Math.SQRT2);
+  });
+});
+
+describe('featheredAlpha', () => {
+  it('is 1 within the dilate radius and ramps to 0 over the feather', () => {
+    const alpha = featheredAlpha(maskOf([[4, 4]]), W, H, 1, 2);
+    expect(alpha[4 * W + 5]).toBe(1);
+    expect(alpha[4 * W + 6]).toBeCloseTo(0.5);
+    expect(alpha[4 * W + 7]).toBe(0);
+  });
+});
+
+describe('growShrink', () => {
+  const square = maskOf(Array.from({ length: 25 }, (_, i) => [2 + (i % 5), 2 + Math.floor(i / 5)] as [number, number]));
+
+  it('returns the mask unchanged for radius 0', () => {
+    expect(growShrink(square, W, H, 0)).toBe(square);
+  });
+
+  it('grows by whole pixels', () => {
+    expect(count(growShrink(square, W, H, 1))).toBe(7 * 7 - 4);
+  });
+
+  it('shrinks from every side', () => {
+    const shrunk = growShrink(square, W, H, -1);
+    expect(count(shrunk)).toBe(9);
+    expect(shrunk[2 * W + 2]).toBe(0);
+    expect(shrunk[4 * W + 4]).toBe(1);
+  });
+});
+
+describe('cropToRegion', () => {
+  it('crops to the padded bounds, clamped to the image', () => {
+    const region = cropToRegion(maskOf([[0, 1], [2, 3]]), W, H, 1);
+    expect(region).toMatchObject({ x: 0, y: 0, width: 4, height: 5 });
+    expect(region!.bits[1 * 4 + 0]).toBe(1);
+    expect(region!.bits[3 * 4 + 2]).toBe(1);
+  });
+
+  it('returns null for an empty mask', () => {
+    expect(cropToRegion(new Uint8Array(W * H), W, H, 2)).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+import { MaskRegion } from "../types";
+
+// Binary mask helpers. Masks are Uint8Array with one byte per pixel (0 or 1).
+
+// Reads the red channel of a black/white mask image into a binary mask;
+// pixels brighter than `threshold` are on
+export const toBinaryMask = (mask: ImageData, threshold = 127): Uint8Array => {
+  const out = new Uint8Array(mask.width * mask.height);
+  for (let i = 0; i < out.length; i++) out[i] = mask.data[i * 4] > threshold ? 1 : 0;
+  return out;
+};
+
+/**
+ * Approximate Euclidean distance from every pixel to the nearest "on" pixel,
+ * using a two-pass chamfer transform (1 / √2 weights). On pixels are 0.
+ */
+export const distanceTransform = (mask: Uint8Array, width: number, height: number): Float32Array => {
+  const DIAG = Math.SQRT2;
+  const dist = new Float32Array(width * height);
+  for (let i = 0; i < dist.length; i++) dist[i] = mask[i] ? 0 : Infinity;
+
+  // Forward pass: top-left to bottom-right
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      let d = dist[i];
+      if (d === 0) continue;
+      if (x > 0) d = Math.min(d, dist[i - 1] + 1);
+      if (y > 0) {
+        d = Math.min(d, dist[i - width] + 1);
+        if (x > 0) d = Math.min(d, dist[i - width - 1] + DIAG);
+        if (x < width - 1) d = Math.min(d, dist[i - width + 1] + DIAG);
+      }
+      dist[i] = d;
+    }
+  }
+
+  // Backward pass: bottom-right to top-left
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      let d = dist[i];
+      if (d === 0) continue;
+      if (x < width - 1) d = Math.min(d, dist[i + 1] + 1);
+      if (y < height - 1) {
+        d = Math.min(d, dist[i + width] + 1);
+        if (x < width - 1) d = Math.min(d, dist[i + width + 1] + DIAG);
+        if (x > 0) d = Math.min(d, dist[i + width - 1] + DIAG);
+      }
+      dist[i] = d;
+    }
+  }
+
+  return dist;
+};
+
+/**
+ * Soft blend weights (0..1): 1 inside the mask grown by `dilateRadius`,
+ * fading linearly to 0 over a further `featherRadius` pixels.
+ */
+export const featheredAlpha = (
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  dilateRadius: number,
+  featherRadius: number
+): Float32Array => {
+  const dist = distanceTransform(mask, width, height);
+  const alpha = new Float32Array(dist.length);
+  for (let i = 0; i < dist.length; i++) {
+    const d = dist[i] - dilateRadius;
+    if (d <= 0) alpha[i] = 1;
+    else if (featherRadius > 0 && d < featherRadius) alpha[i] = 1 - d / featherRadius;
+  }
+  return alpha;
+};
+
+/**
+ * Grows (radius > 0) or shrinks (radius < 0) a binary mask by a pixel distance.
+ * Only pixels inside the array are considered: a mask touching the array edge does
+ * not erode from that edge.
+ */
+export const growShrink = (mask: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+  if (radius === 0) return mask;
+  const out = new Uint8Array(mask.length);
+  if (radius > 0) {
+    const dist = distanceTransform(mask, width, height);
+    for (let i = 0; i < out.length; i++) out[i] = dist[i] <= radius ? 1 : 0;
+  } else {
+    const inverse = new Uint8Array(mask.length);
+    for (let i = 0; i < mask.length; i++) inverse[i] = mask[i] ? 0 : 1;
+    const dist = distanceTransform(inverse, width, height);
+    for (let i = 0; i < out.length; i++) out[i] = mask[i] && dist[i] > -radius ? 1 : 0;
+  }
+  return out;
+};
+
+// Crops a full-size binary mask to its bounding box expanded by `pad` (clamped to the image)
+export const cropToRegion = (bits: Uint8Array, width: number, height: number, pad: number): MaskRegion | null => {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (bits[y * width + x]) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return null;
+  const x0 = Math.max(0, minX - pad), y0 = Math.max(0, minY - pad);
+  const x1 = Math.min(width - 1, maxX + pad), y1 = Math.min(height - 1, maxY + pad);
+  const w = x1 - x0 + 1, h = y1 - y0 + 1;
+  const out = new Uint8Array(w * h);
+  for (let y = 0; y < h; y++) {
+    out.set(bits.subarray((y0 + y) * width + x0, (y0 + y) * width + x0 + w), y * w);
+  }
+  return { x: x0, y: y0, width: w, height: h, bits: out };
+};
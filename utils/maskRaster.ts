@@ -0,0 +1,197 @@
+import { ImageDimensions, MaskRegion, Point, Rect, Stroke, StrokeShape } from "../types";
+import { createCanvas, padRect, unionRects } from "./imageUtils";
+
+// Region bitmaps are immutable once created, so their painted canvases can be reused per colour
+const regionCanvasCache = new WeakMap<MaskRegion, Map<string, HTMLCanvasElement>>();
+
+const getRegionCanvas = (region: MaskRegion, color: string): HTMLCanvasElement => {
+  let byColor = regionCanvasCache.get(region);
+  if (!byColor) {
+    byColor = new Map();
+    regionCanvasCache.set(region, byColor);
+  }
+  const cached = byColor.get(color);
+  if (cached) return cached;
+
+  const { canvas, ctx } = createCanvas(region.width, region.height);
+  const pixels = ctx.createImageData(region.width, region.height);
+  for (let i = 0; i < region.bits.length; i++) {
+    if (region.bits[i]) pixels.data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(pixels, 0, 0);
+  // Tint the opaque pixels
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, region.width, region.height);
+  byColor.set(color, canvas);
+  return canvas;
+};
+
+const traceShape = (ctx: CanvasRenderingContext2D, stroke: Stroke, color: string) => {
+  const { points } = stroke;
+  switch (stroke.shape ?? StrokeShape.FREEHAND) {
+    case StrokeShape.RECT: {
+      if (points.length < 2) return;
+      const [a, b] = points;
+      ctx.fillRect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+      return;
+    }
+    case StrokeShape.ELLIPSE: {
+      if (points.length < 2) return;
+      const [a, b] = points;
+      const rx = Math.abs(b.x - a.x) / 2;
+      const ry = Math.abs(b.y - a.y) / 2;
+      if (rx === 0 || ry === 0) return;
+      ctx.beginPath();
+      ctx.ellipse((a.x + b.x) / 2, (a.y + b.y) / 2, rx, ry, 0, 0, Math.PI * 2);
+      ctx.fill();
+      return;
+    }
+    case StrokeShape.REGION: {
+      if (!stroke.region) return;
+      ctx.drawImage(getRegionCanvas(stroke.region, color), stroke.region.x, stroke.region.y);
+      return;
+    }
+    case StrokeShape.POLYGON: {
+      if (points.length < 3) return;
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      for (let i = 1; i < points.length; i++) ctx.lineTo(points[i].x, points[i].y);
+      ctx.closePath();
+      ctx.fill();
+      return;
+    }
+    default: {
+      if (points.length === 0) return;
+      const { widths } = stroke;
+      ctx.lineWidth = stroke.size;
+      ctx.beginPath();
+      if (points.length === 1) {
+        // A click without movement still leaves a dot
+        ctx.arc(points[0].x, points[0].y, (widths ? widths[0] : stroke.size) / 2, 0, Math.PI * 2);
+        ctx.fill();
+        return;
+      }
+      if (widths) {
+        // Pressure strokes: one segment per width, round caps hide the joins
+        for (let i = 1; i < points.length; i++) {
+          ctx.lineWidth = (widths[i - 1] + widths[i]) / 2;
+          ctx.beginPath();
+          ctx.moveTo(points[i - 1].x, points[i - 1].y);
+          ctx.lineTo(points[i].x, points[i].y);
+          ctx.stroke();
+        }
+        return;
+      }
+      ctx.moveTo(points[0].x, points[0].y);
+      for (let i = 1; i < points.length; i++) ctx.lineTo(points[i].x, points[i].y);
+      ctx.stroke();
+    }
+  }
+};
+
+/**
+ * Paints strokes in order onto a transparent layer: additive strokes in `color`,
+ * erasing strokes punch holes via destination-out, so later strokes win.
+ */
+export const renderStrokes = (ctx: CanvasRenderingContext2D, strokes: Stroke[], color: string) => {
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.fillStyle = color;
+  ctx.strokeStyle = color;
+  for (const stroke of strokes) {
+    ctx.globalCompositeOperation = stroke.erase ? 'destination-out' : 'source-over';
+    traceShape(ctx, stroke, color);
+  }
+  ctx.restore();
+};
+
+/**
+ * Paints the freehand segments of `stroke` ending at points `from`..last, so a
+ * stroke being drawn can be appended to a layer without repainting it.
+ */
+export const renderStrokeSegments = (ctx: CanvasRenderingContext2D, stroke: Stroke, from: number, color: string) => {
+  const { points, widths } = stroke;
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.fillStyle = color;
+  ctx.strokeStyle = color;
+  ctx.globalCompositeOperation = stroke.erase ? 'destination-out' : 'source-over';
+  if (from === 0 && points.length > 0) {
+    ctx.beginPath();
+    ctx.arc(points[0].x, points[0].y, (widths ? widths[0] : stroke.size) / 2, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  for (let i = Math.max(1, from); i < points.length; i++) {
+    ctx.lineWidth = widths ? (widths[i - 1] + widths[i]) / 2 : stroke.size;
+    ctx.beginPath();
+    ctx.moveTo(points[i - 1].x, points[i - 1].y);
+    ctx.lineTo(points[i].x, points[i].y);
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+/**
+ * Image pixels a stroke can touch, padded for antialiasing; null when it paints nothing.
+ * Not clamped to the image.
+ */
+export const strokeBounds = (stroke: Stroke): Rect | null => {
+  if (stroke.region) {
+    const { x, y, width, height } = stroke.region;
+    return { x, y, width, height };
+  }
+  if (stroke.points.length === 0) return null;
+  const radius = (stroke.shape ?? StrokeShape.FREEHAND) === StrokeShape.FREEHAND
+    ? Math.max(stroke.size, ...(stroke.widths ?? [])) / 2
+    : 0;
+  const xs = stroke.points.map(p => p.x);
+  const ys = stroke.points.map(p => p.y);
+  const x = Math.floor(Math.min(...xs) - radius) - 1;
+  const y = Math.floor(Math.min(...ys) - radius) - 1;
+  return {
+    x,
+    y,
+    width: Math.ceil(Math.max(...xs) + radius) + 2 - x,
+    height: Math.ceil(Math.max(...ys) + radius) + 2 - y,
+  };
+};
+
+/**
+ * Rasterizes strokes into the white-on-black mask canvas the inpainting pipeline expects.
+ * `origin` is the image pixel at the canvas's top-left, to render only part of the image.
+ */
+export const rasterizeMask = (strokes: Stroke[], width: number, height: number, origin: Point = { x: 0, y: 0 }): HTMLCanvasElement => {
+  const layer = createCanvas(width, height);
+  layer.ctx.translate(-origin.x, -origin.y);
+  renderStrokes(layer.ctx, strokes, '#FFFFFF');
+
+  const out = createCanvas(width, height);
+  out.ctx.fillStyle = '#000000';
+  out.ctx.fillRect(0, 0, width, height);
+  out.ctx.drawImage(layer.canvas, 0, 0);
+  return out.canvas;
+};
+
+/**
+ * Whether any mask pixel is left once erasers are applied. Only rasterizes (the
+ * bounds of the additive strokes) when something was erased.
+ */
+export const hasVisibleMask = (strokes: Stroke[], size: ImageDimensions): boolean => {
+  const additive = strokes.filter(s => !s.erase);
+  if (additive.length === 0) return false;
+  if (additive.length === strokes.length) return true;
+  const bounds = unionRects(additive.map(strokeBounds));
+  if (!bounds) return false;
+  const area = padRect(bounds, 0, size);
+  if (area.width <= 0 || area.height <= 0) return false;
+  const layer = createCanvas(area.width, area.height);
+  layer.ctx.translate(-area.x, -area.y);
+  renderStrokes(layer.ctx, strokes, '#FFFFFF');
+  const data = layer.ctx.getImageData(0, 0, area.width, area.height).data;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true;
+  }
+  return false;
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { MaskRefinement, isIdentityRefinement, refineBinaryMask, refinementReach } from './maskRefinement';
+
+const W = 48;
+const H = 40;
+
+// Deterministic blobby mask: a few filled discs
+const discs = (): Uint8Array => {
+  const bits = new Uint8Array(W * H);
+  const centres = [[10, 12, 6], [30, 18, 9], [20, 30, 4], [44, 5, 5]];
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      if (centres.some(([cx, cy, r]) => Math.hypot(x - cx, y - cy) <= r)) bits[y * W + x] = 1;
+    }
+  }
+  return bits;
+};
+
+const crop = (bits: Uint8Array, x0: number, y0: number, w: number, h: number) => {
+  const out = new Uint8Array(w * h);
+  for (let y = 0; y < h; y++) out.set(bits.subarray((y0 + y) * W + x0, (y0 + y) * W + x0 + w), y * w);
+  return out;
+};
+
+describe('refineBinaryMask', () => {
+  it('is the mask itself for the identity refinement', () => {
+    const bits = discs();
+    const identity = { grow: 0, feather: 0, invert: false };
+    expect(isIdentityRefinement(identity)).toBe(true);
+    expect(Array.from(refineBinaryMask(bits, W, H, identity))).toEqual(Array.from(bits));
+  });
+
+  it('feathers outward from the grown edge and inverts', () => {
+    const bits = new Uint8Array(W * H);
+    bits[20 * W + 20] = 1;
+    const refined = refineBinaryMask(bits, W, H, { grow: 2, feather: 4, invert: false });
+    expect(refined[20 * W + 22]).toBe(1);
+    expect(refined[20 * W + 24]).toBeCloseTo(0.5);
+    expect(refined[20 * W + 26]).toBe(0);
+
+    const inverted = refineBinaryMask(bits, W, H, { grow: 2, feather: 4, invert: true });
+    expect(inverted[20 * W + 20]).toBe(0);
+    expect(inverted[20 * W + 24]).toBeCloseTo(0.5);
+    expect(inverted[0]).toBe(1);
+  });
+
+  // The incremental overlay refines a crop padded by the reach and keeps only its centre
+  it.each<MaskRefinement>([
+    { grow: 3, feather: 5, invert: false },
+    { grow: -3, feather: 2.5, invert: false },
+    { grow: 0, feather: 6, invert: true },
+  ])('refines a crop padded by the reach exactly like the whole mask (%o)', refinement => {
+    const bits = discs();
+    const full = refineBinaryMask(bits, W, H, refinement);
+    const reach = refinementReach(refinement);
+    const patch = { x: 14, y: 10, width: 16, height: 14 };
+    const input = { x: patch.x - reach, y: patch.y - reach, width: patch.width + 2 * reach, height: patch.height + 2 * reach };
+    const local = refineBinaryMask(crop(bits, input.x, input.y, input.width, input.height), input.width, input.height, refinement);
+
+    for (let y = 0; y < patch.height; y++) {
+      for (let x = 0; x < patch.width; x++) {
+        const inCrop = local[(y + reach) * input.width + x + reach];
+        expect(inCrop).toBeCloseTo(full[(patch.y + y) * W + patch.x + x], 5);
+      }
+    }
+  });
+});
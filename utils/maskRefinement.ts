@@ -0,0 +1,152 @@
+import { Rect, Stroke } from "../types";
+import { featheredAlpha, growShrink, toBinaryMask } from "./maskMorphology";
+import { rasterizeMask, strokeBounds } from "./maskRaster";
+import { createCanvas, padRect, unionRects } from "./imageUtils";
+
+// Post-processing applied to the painted mask before it is previewed or sent to the model
+export interface MaskRefinement {
+  // Pixels to grow (> 0) or shrink (< 0) the mask by
+  grow: number;
+  // Width of the soft edge fading out beyond the mask, in pixels
+  feather: number;
+  invert: boolean;
+}
+
+export const DEFAULT_MASK_REFINEMENT: MaskRefinement = {
+  grow: 0,
+  feather: 0,
+  invert: false,
+};
+
+export const isIdentityRefinement = (refinement: MaskRefinement) =>
+  refinement.grow === 0 && refinement.feather === 0 && !refinement.invert;
+
+const sameRefinement = (a: MaskRefinement, b: MaskRefinement) =>
+  a.grow === b.grow && a.feather === b.feather && a.invert === b.invert;
+
+// How far (in pixels) a change to the painted mask can alter the refined one.
+// The chamfer distances involved only follow paths within this range, so a crop
+// with this much margin refines its centre exactly as the whole image would.
+export const refinementReach = (refinement: MaskRefinement) =>
+  Math.abs(refinement.grow) + Math.ceil(refinement.feather) + 1;
+
+/**
+ * Coverage (0..1) of the refined mask for every pixel of a binary mask.
+ */
+export const refineBinaryMask = (bits: Uint8Array, width: number, height: number, refinement: MaskRefinement): Float32Array => {
+  const grown = growShrink(bits, width, height, refinement.grow);
+  const coverage = featheredAlpha(grown, width, height, 0, refinement.feather);
+  if (refinement.invert) {
+    for (let i = 0; i < coverage.length; i++) coverage[i] = 1 - coverage[i];
+  }
+  return coverage;
+};
+
+// Same, read from a white-on-black mask canvas
+const refinedCoverage = (mask: HTMLCanvasElement, refinement: MaskRefinement): Float32Array => {
+  const { width, height } = mask;
+  const ctx = mask.getContext('2d');
+  if (!ctx) throw new Error("Canvas 不可用");
+  return refineBinaryMask(toBinaryMask(ctx.getImageData(0, 0, width, height)), width, height, refinement);
+};
+
+// Paints coverage as the given colour with matching opacity on a transparent canvas
+const coverageToCanvas = (coverage: Float32Array, width: number, height: number, rgb: [number, number, number]) => {
+  const { canvas, ctx } = createCanvas(width, height);
+  const pixels = ctx.createImageData(width, height);
+  const data = pixels.data;
+  for (let i = 0; i < coverage.length; i++) {
+    if (coverage[i] === 0) continue;
+    data[i * 4] = rgb[0];
+    data[i * 4 + 1] = rgb[1];
+    data[i * 4 + 2] = rgb[2];
+    data[i * 4 + 3] = Math.round(coverage[i] * 255);
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+};
+
+/**
+ * White-on-black mask with the refinement applied; feathered edges come out grey.
+ */
+export const renderRefinedMask = (
+  strokes: Stroke[],
+  width: number,
+  height: number,
+  refinement: MaskRefinement
+): HTMLCanvasElement => {
+  const mask = rasterizeMask(strokes, width, height);
+  if (isIdentityRefinement(refinement)) return mask;
+
+  const layer = coverageToCanvas(refinedCoverage(mask, refinement), width, height, [255, 255, 255]);
+  const ctx = mask.getContext('2d');
+  if (!ctx) throw new Error("Canvas 不可用");
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(layer, 0, 0);
+  return mask;
+};
+
+/**
+ * Refined mask as a transparent overlay tinted `rgb`, for on-screen previews.
+ */
+export const renderRefinedOverlay = (
+  strokes: Stroke[],
+  width: number,
+  height: number,
+  refinement: MaskRefinement,
+  rgb: [number, number, number]
+): HTMLCanvasElement =>
+  coverageToCanvas(refinedCoverage(rasterizeMask(strokes, width, height), refinement), width, height, rgb);
+
+// A refined preview and the inputs it reflects
+export interface RefinedOverlay {
+  strokes: Stroke[];
+  refinement: MaskRefinement;
+  canvas: HTMLCanvasElement;
+}
+
+/**
+ * Brings a refined overlay up to date with `strokes`. When only strokes were added or
+ * undone since `previous`, just the area they touch (plus the refinement's reach) is
+ * recomputed and patched into the previous canvas, which is reused. Anything else
+ * (new refinement, new image size, no previous overlay) renders from scratch.
+ */
+export const updateRefinedOverlay = (
+  previous: RefinedOverlay | null,
+  strokes: Stroke[],
+  width: number,
+  height: number,
+  refinement: MaskRefinement,
+  rgb: [number, number, number]
+): RefinedOverlay => {
+  if (!previous || !sameRefinement(previous.refinement, refinement) ||
+      previous.canvas.width !== width || previous.canvas.height !== height) {
+    return { strokes, refinement, canvas: renderRefinedOverlay(strokes, width, height, refinement, rgb) };
+  }
+  if (previous.strokes === strokes) return previous;
+
+  // Strokes past the shared prefix were added, removed or replaced
+  let common = 0;
+  while (common < previous.strokes.length && common < strokes.length && previous.strokes[common] === strokes[common]) common++;
+  const changed = unionRects([...previous.strokes.slice(common), ...strokes.slice(common)].map(strokeBounds));
+  if (!changed) return { ...previous, strokes };
+
+  const size = { width, height };
+  const reach = refinementReach(refinement);
+  const patch = padRect(changed, reach, size);
+  if (patch.width <= 0 || patch.height <= 0) return { ...previous, strokes };
+  const input = padRect(patch, reach, size);
+
+  const mask = rasterizeMask(strokes, input.width, input.height, input);
+  const refined = coverageToCanvas(refinedCoverage(mask, refinement), input.width, input.height, rgb);
+  const ctx = previous.canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 不可用");
+  ctx.clearRect(patch.x, patch.y, patch.width, patch.height);
+  ctx.drawImage(
+    refined,
+    patch.x - input.x, patch.y - input.y, patch.width, patch.height,
+    patch.x, patch.y, patch.width, patch.height
+  );
+  return { strokes, refinement, canvas: previous.canvas };
+};
@@ -0,0 +1,160 @@
+import { ImageDimensions, MaskRegion, Point, Stroke, StrokeShape } from "../types";
+import { createCanvas, loadImage } from "./imageUtils";
+import { cropToRegion } from "./maskMorphology";
+
+export const MASK_FORMAT_VERSION = 1;
+
+/** A region bitmap at its native resolution, placed in image-relative coordinates */
+interface RelativeRegion {
+  x: number;      // Fractions of the image width / height
+  y: number;
+  width: number;
+  height: number;
+  cols: number;   // Bitmap resolution
+  rows: number;
+  runs: number[]; // Run lengths alternating off/on, starting with off
+}
+
+interface RelativeStroke {
+  shape: StrokeShape;
+  erase?: boolean;
+  size: number;     // Fraction of the image diagonal
+  widths?: number[]; // Per-point pen widths, fractions of the diagonal
+  points: Point[];  // Fractions of the image width / height
+  region?: RelativeRegion;
+}
+
+/** Resolution-independent mask: maps onto any image proportionally */
+export interface MaskDocument {
+  version: number;
+  strokes: RelativeStroke[];
+}
+
+const encodeRuns = (bits: Uint8Array): number[] => {
+  const runs: number[] = [];
+  let current = 0, length = 0;
+  for (let i = 0; i < bits.length; i++) {
+    if (bits[i] === current) {
+      length++;
+    } else {
+      runs.push(length);
+      current = bits[i];
+      length = 1;
+    }
+  }
+  runs.push(length);
+  return runs;
+};
+
+const decodeRuns = (runs: number[], length: number): Uint8Array => {
+  const bits = new Uint8Array(length);
+  let pos = 0;
+  runs.forEach((run, i) => {
+    if (i % 2 === 1) bits.fill(1, pos, Math.min(length, pos + run));
+    pos += run;
+  });
+  return bits;
+};
+
+// Nearest-neighbour resample of a bitmap
+const resample = (bits: Uint8Array, cols: number, rows: number, width: number, height: number): Uint8Array => {
+  const out = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(rows - 1, Math.floor((y * rows) / height));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(cols - 1, Math.floor((x * cols) / width));
+      out[y * width + x] = bits[sy * cols + sx];
+    }
+  }
+  return out;
+};
+
+export const toMaskDocument = (strokes: Stroke[], size: ImageDimensions): MaskDocument => {
+  const diagonal = Math.hypot(size.width, size.height);
+  return {
+    version: MASK_FORMAT_VERSION,
+    strokes: strokes.map(stroke => ({
+      shape: stroke.shape ?? StrokeShape.FREEHAND,
+      ...(stroke.erase ? { erase: true } : {}),
+      size: stroke.size / diagonal,
+      ...(stroke.widths ? { widths: stroke.widths.map(w => w / diagonal) } : {}),
+      points: stroke.points.map(p => ({ x: p.x / size.width, y: p.y / size.height })),
+      ...(stroke.region ? {
+        region: {
+          x: stroke.region.x / size.width,
+          y: stroke.region.y / size.height,
+          width: stroke.region.width / size.width,
+          height: stroke.region.height / size.height,
+          cols: stroke.region.width,
+          rows: stroke.region.height,
+          runs: encodeRuns(stroke.region.bits),
+        }
+      } : {}),
+    })),
+  };
+};
+
+/** Maps a mask document onto an image of `size`, scaling each axis independently */
+export const fromMaskDocument = (doc: MaskDocument, size: ImageDimensions): Stroke[] => {
+  const diagonal = Math.hypot(size.width, size.height);
+  return doc.strokes.map(rel => {
+    const stroke: Stroke = {
+      shape: rel.shape,
+      erase: rel.erase,
+      size: rel.size * diagonal,
+      ...(rel.widths ? { widths: rel.widths.map(w => w * diagonal) } : {}),
+      points: rel.points.map(p => ({ x: p.x * size.width, y: p.y * size.height })),
+    };
+    if (rel.region) {
+      const r = rel.region;
+      const x = Math.round(r.x * size.width), y = Math.round(r.y * size.height);
+      const width = Math.max(1, Math.round(r.width * size.width));
+      const height = Math.max(1, Math.round(r.height * size.height));
+      const bits = decodeRuns(r.runs, r.cols * r.rows);
+      const region: MaskRegion = {
+        x, y, width, height,
+        bits: width === r.cols && height === r.rows ? bits : resample(bits, r.cols, r.rows, width, height),
+      };
+      stroke.region = region;
+    }
+    return stroke;
+  });
+};
+
+/** Parses an exported mask JSON file, throwing a readable error for anything else */
+export const parseMaskDocument = (text: string): MaskDocument => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error("蒙版文件不是有效的 JSON");
+  }
+  const candidate = doc as Partial<MaskDocument> | null;
+  if (!candidate || typeof candidate.version !== 'number' || !Array.isArray(candidate.strokes)) {
+    throw new Error("不是可识别的蒙版文件");
+  }
+  if (candidate.version > MASK_FORMAT_VERSION) {
+    throw new Error(`蒙版文件版本过新 (v${candidate.version})`);
+  }
+  return candidate as MaskDocument;
+};
+
+/**
+ * Turns a black/white mask image into a single region stroke for an image of `size`,
+ * stretching it when the dimensions differ. Returns null for an empty mask.
+ */
+export const maskImageToStroke = async (src: string, size: ImageDimensions): Promise<Stroke | null> => {
+  const img = await loadImage(src);
+  const { ctx } = createCanvas(size.width, size.height);
+  ctx.drawImage(img, 0, 0, size.width, size.height);
+  const { data } = ctx.getImageData(0, 0, size.width, size.height);
+
+  // Opaque white pixels are masked; black and transparent ones are kept
+  const bits = new Uint8Array(size.width * size.height);
+  for (let i = 0; i < bits.length; i++) {
+    const lum = (data[i * 4] + data[i * 4 + 1] + data[i * 4 + 2]) / 3;
+    if (data[i * 4 + 3] > 127 && lum > 127) bits[i] = 1;
+  }
+  const region = cropToRegion(bits, size.width, size.height, 0);
+  return region && { points: [], size: 0, shape: StrokeShape.REGION, region };
+};
@@ -0,0 +1,42 @@
+import { Point } from "../types";
+
+// Distance from p to the segment a-b
+const segmentDistance = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+/**
+ * Ramer–Douglas–Peucker: indices of the points to keep so that no dropped point
+ * lies further than `tolerance` from the simplified path. Endpoints are always kept.
+ */
+export const simplifyPath = (points: Point[], tolerance: number): number[] => {
+  if (points.length <= 2) return points.map((_, i) => i);
+  const keep = new Uint8Array(points.length);
+  keep[0] = keep[points.length - 1] = 1;
+
+  // Iterative to stay clear of the call stack limit on very long strokes
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length) {
+    const [start, end] = stack.pop()!;
+    let maxDistance = 0, index = -1;
+    for (let i = start + 1; i < end; i++) {
+      const d = segmentDistance(points[i], points[start], points[end]);
+      if (d > maxDistance) {
+        maxDistance = d;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = 1;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  const indices: number[] = [];
+  keep.forEach((k, i) => k && indices.push(i));
+  return indices;
+};
@@ -0,0 +1,134 @@
+import { MaskRegion } from "../types";
+import { createCanvas, loadImage } from "./imageUtils";
+import { growShrink } from "./maskMorphology";
+
+// Analysis runs on a downscaled copy; watermarks are large enough to survive it
+const ANALYSIS_SIZE = 512;
+// Corner zones where platform watermarks usually sit, as fractions of the image
+const ZONE_X = 0.4;
+const ZONE_Y = 0.22;
+// Gradient (|dx| + |dy| of luminance) above which a pixel counts as a glyph edge
+const EDGE_THRESHOLD = 60;
+// Dilation that merges neighbouring glyph edges into one blob per mark
+const MERGE_RADIUS = 3;
+const MIN_AREA_RATIO = 0.001;
+const MAX_AREA_RATIO = 0.08;
+const MIN_EDGE_DENSITY = 0.12;
+const MAX_CANDIDATES = 4;
+// Extra margin added around each proposal at full resolution
+const MASK_GROW = 4;
+
+interface Candidate {
+  bits: Uint8Array; // Blob pixels within its bounding box
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  score: number;
+}
+
+const inCornerZone = (x: number, y: number, width: number, height: number) =>
+  (x < width * ZONE_X || x >= width * (1 - ZONE_X)) &&
+  (y < height * ZONE_Y || y >= height * (1 - ZONE_Y));
+
+// Marks strong luminance edges inside the corner zones
+const cornerEdges = (image: ImageData): Uint8Array => {
+  const { width, height, data } = image;
+  const lum = new Float32Array(width * height);
+  for (let i = 0; i < lum.length; i++) {
+    lum[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  const edges = new Uint8Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      if (!inCornerZone(x, y, width, height)) continue;
+      const i = y * width + x;
+      const g = Math.abs(lum[i + 1] - lum[i - 1]) + Math.abs(lum[i + width] - lum[i - width]);
+      if (g > EDGE_THRESHOLD) edges[i] = 1;
+    }
+  }
+  return edges;
+};
+
+// Connected blobs of the merged edge map, scored by how text-like they look
+const findCandidates = (edges: Uint8Array, merged: Uint8Array, width: number, height: number): Candidate[] => {
+  const visited = new Uint8Array(width * height);
+  const total = width * height;
+  const candidates: Candidate[] = [];
+
+  for (let start = 0; start < total; start++) {
+    if (!merged[start] || visited[start]) continue;
+
+    const pixels: number[] = [];
+    const stack = [start];
+    visited[start] = 1;
+    let minX = width, minY = height, maxX = -1, maxY = -1, edgeCount = 0;
+    while (stack.length) {
+      const i = stack.pop()!;
+      pixels.push(i);
+      const x = i % width, y = (i - x) / width;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      edgeCount += edges[i];
+      if (x > 0 && merged[i - 1] && !visited[i - 1]) { visited[i - 1] = 1; stack.push(i - 1); }
+      if (x < width - 1 && merged[i + 1] && !visited[i + 1]) { visited[i + 1] = 1; stack.push(i + 1); }
+      if (y > 0 && merged[i - width] && !visited[i - width]) { visited[i - width] = 1; stack.push(i - width); }
+      if (y < height - 1 && merged[i + width] && !visited[i + width]) { visited[i + width] = 1; stack.push(i + width); }
+    }
+
+    const w = maxX - minX + 1, h = maxY - minY + 1;
+    const areaRatio = (w * h) / total;
+    const density = edgeCount / pixels.length;
+    // Too small is noise, too large is scene texture; marks are dense in edges
+    if (areaRatio < MIN_AREA_RATIO || areaRatio > MAX_AREA_RATIO || density < MIN_EDGE_DENSITY) continue;
+
+    const bits = new Uint8Array(w * h);
+    pixels.forEach(i => {
+      const x = i % width, y = (i - x) / width;
+      bits[(y - minY) * w + (x - minX)] = 1;
+    });
+    candidates.push({ bits, x: minX, y: minY, width: w, height: h, score: density * Math.sqrt(pixels.length) });
+  }
+
+  return candidates.sort((a, b) => b.score - a.score).slice(0, MAX_CANDIDATES);
+};
+
+// Maps an analysis-scale blob to a full-resolution region (nearest neighbour), grown slightly
+const toFullRegion = (c: Candidate, scale: number, fullWidth: number, fullHeight: number): MaskRegion => {
+  const x0 = Math.max(0, Math.floor(c.x * scale) - MASK_GROW);
+  const y0 = Math.max(0, Math.floor(c.y * scale) - MASK_GROW);
+  const x1 = Math.min(fullWidth, Math.ceil((c.x + c.width) * scale) + MASK_GROW);
+  const y1 = Math.min(fullHeight, Math.ceil((c.y + c.height) * scale) + MASK_GROW);
+  const width = x1 - x0, height = y1 - y0;
+  const bits = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.floor((y0 + y) / scale) - c.y;
+    if (sy < 0 || sy >= c.height) continue;
+    for (let x = 0; x < width; x++) {
+      const sx = Math.floor((x0 + x) / scale) - c.x;
+      if (sx >= 0 && sx < c.width && c.bits[sy * c.width + sx]) bits[y * width + x] = 1;
+    }
+  }
+  return { x: x0, y: y0, width, height, bits: growShrink(bits, width, height, MASK_GROW) };
+};
+
+/**
+ * Proposes mask regions for likely watermarks: compact clusters of sharp,
+ * text-like edges in the image corners where platforms stamp their marks.
+ * Purely local and heuristic — results are meant to be reviewed and refined.
+ */
+export const detectWatermarks = async (src: string): Promise<MaskRegion[]> => {
+  const img = await loadImage(src);
+  const scale = Math.max(1, Math.max(img.width, img.height) / ANALYSIS_SIZE);
+  const width = Math.round(img.width / scale);
+  const height = Math.round(img.height / scale);
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+
+  const edges = cornerEdges(ctx.getImageData(0, 0, width, height));
+  const merged = growShrink(edges, width, height, MERGE_RADIUS);
+  return findCandidates(edges, merged, width, height)
+    .map(c => toFullRegion(c, img.width / width, img.width, img.height));
+};